@@ -0,0 +1,547 @@
+#!/usr/bin/env node
+/**
+ * AppStore Ledger CLI
+ * Generates statements from App Store Connect reports without a browser,
+ * using the same parser and generators as the web app
+ */
+
+import { parseArgs } from 'node:util';
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  parseAppleReport,
+  validateReport,
+  detectDelimiter,
+  formatDate,
+  REPORT_TYPE_LABELS,
+  mergeReports,
+  splitByPeriod,
+  groupByFiscalPeriod,
+  formatFiscalPeriod,
+  getFiscalLabel,
+  extractReportFiles,
+  importRates,
+  generatePDFBytes,
+  getPDFFilename,
+  needsUnicodeFont,
+  generateCSVExport,
+  zipCSVFiles,
+  getCSVArchiveFilename,
+  generateXLSX,
+  getXLSXFilename,
+  generateJournal,
+  getJournalFilename,
+  JOURNAL_FORMAT_LABELS,
+  LOCALE_LABELS,
+  PDF_SECTIONS,
+  DEFAULT_PDF_SECTIONS,
+  type PDFSection,
+  type ParsedReport,
+  type ReportSource,
+  type ExchangeRates,
+  type FiscalGrouping,
+  type CSVExportOptions,
+  type CSVProfile,
+  type JournalFormat,
+  type JournalOptions,
+  type JournalTracking,
+  type AccountMapping,
+  type Locale,
+  type PDFFont,
+  type PDFOptions,
+} from '../lib';
+
+const USAGE = `Usage: appleledger statement <reports...> [options]
+
+Generate statements from App Store Connect reports. Reports may be plain
+text, gzipped (.txt.gz) or bundled in ZIP archives; directories are
+searched for all three. All reports are combined into one statement
+unless --split or --fiscal is given.
+
+Options:
+  -o, --out <dir>             Output directory (default: current directory)
+  -f, --format <list>         Comma-separated formats: pdf, csv, xlsx, journal
+                              (default: pdf)
+  -d, --developer <name>      Developer / company name for the statement header
+      --split                 Write one statement per reporting period
+      --fiscal <grouping>     Write one statement per Apple fiscal quarter or
+                              year: quarter, year
+      --rates <file>          Exchange rates CSV or Apple payment summary
+      --base-currency <code>  Base currency for converted totals
+      --profile <name>        CSV layout: human, transactions, summaries (default: human)
+      --delimiter <name>      CSV delimiter: comma, semicolon, tab (default:
+                              semicolon with a decimal comma, else comma)
+      --decimal <name>        CSV decimal separator: point, comma (default:
+                              the --locale's)
+      --bom                   Start CSV files with a UTF-8 byte order mark
+      --zip                   Bundle multi-file CSV exports into one ZIP
+      --journal <format>      Journal format: xero, quickbooks-iif, quickbooks-csv,
+                              ledger, hledger, beancount (default: beancount)
+      --accounts <file>       JSON account mapping (receivable, revenue,
+                              commission, taxRate)
+      --tracking <name>       Split journal revenue by: none, country, product
+      --commission            Book Apple's commission as a separate expense
+      --locale <code>         Statement language for PDF and CSV labels, numbers
+                              and dates: en, de, ja (default: en)
+      --font <file>           TrueType font for the PDF, required for Japanese and
+                              other text outside Latin-1 (e.g. Noto Sans JP)
+      --bold-font <file>      Bold weight of --font
+      --transactions          Append every transaction to the PDF, grouped by
+                              currency with subtotals
+      --charts                Add revenue trend charts to the PDF: proceeds
+                              over time, countries, top products and product
+                              types
+      --pdf-settings <file>   JSON PDF layout: title, address, vatId, logo,
+                              pageSize, accentColor, sections, taxNotice,
+                              disclaimer, footer, pageNumbers
+  -h, --help                  Show this help
+`;
+
+const FORMATS = ['pdf', 'csv', 'xlsx', 'journal'] as const;
+type Format = (typeof FORMATS)[number];
+
+const PROFILES: CSVProfile[] = ['human', 'transactions', 'summaries'];
+const DELIMITERS = { comma: ',', semicolon: ';', tab: '\t' } as const;
+const DECIMAL_SEPARATORS = { point: '.', comma: ',' } as const;
+const TRACKING: JournalTracking[] = ['none', 'country', 'product'];
+const FISCAL_GROUPINGS: FiscalGrouping[] = ['quarter', 'year'];
+
+/** Extensions of report files picked up from directories */
+const REPORT_EXTENSIONS = ['.txt', '.gz', '.zip'];
+
+/**
+ * Expand directories into the report files they contain
+ */
+async function collectReportFiles(inputs: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (!info) {
+      throw new Error(`${input}: no such file or directory`);
+    }
+
+    if (info.isDirectory()) {
+      const entries = (await readdir(input))
+        .filter((name) => REPORT_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+        .sort();
+      files.push(...entries.map((name) => path.join(input, name)));
+    } else {
+      files.push(input);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Read, unpack, validate and parse each report file. Archive entries are
+ * reported as `archive.zip/entry.txt`.
+ */
+async function parseReportFiles(files: string[]): Promise<ParsedReport[]> {
+  const reports: ParsedReport[] = [];
+
+  for (const input of files) {
+    const extracted = extractReportFiles(input, await readFile(input));
+    if (extracted.rejected.length > 0) {
+      throw new Error(extracted.rejected.map((r) => `${r.name}: ${r.reason}`).join('\n'));
+    }
+    reports.push(...extracted.files.map(({ name, content }) => parseReportFile(name, content)));
+  }
+
+  return reports;
+}
+
+/**
+ * Validate and parse one report, printing its warnings and diagnostics
+ */
+function parseReportFile(file: string, content: string): ParsedReport {
+  const validation = validateReport(content, detectDelimiter(content));
+  if (!validation.valid) {
+    throw new Error(`${file}: ${validation.errors.join('. ')}`);
+  }
+  for (const warning of validation.warnings) {
+    console.warn(`warning: ${file}: ${warning}`);
+  }
+  const report = parseAppleReport(content, path.basename(file));
+  for (const d of report.diagnostics) {
+    const location = d.line !== undefined ? `${file}:${d.line}` : file;
+    console.warn(`${d.severity === 'error' ? 'skipped' : 'warning'}: ${location}: ${d.message}`);
+  }
+  return report;
+}
+
+/**
+ * Parse the --format list
+ */
+function parseFormats(value: string): Format[] {
+  const formats = value.split(',').map((f) => f.trim().toLowerCase()).filter(Boolean);
+  const unknown = formats.filter((f) => !(FORMATS as readonly string[]).includes(f));
+  if (unknown.length > 0 || formats.length === 0) {
+    throw new Error(`Unsupported format "${unknown.join(', ') || value}". Use ${FORMATS.join(', ')}`);
+  }
+  return [...new Set(formats)] as Format[];
+}
+
+/**
+ * Build CSV export options from --profile, --delimiter, --decimal and --bom
+ */
+function parseCSVOptions(values: {
+  profile: string;
+  delimiter?: string;
+  decimal?: string;
+  bom: boolean;
+}): CSVExportOptions {
+  if (!(PROFILES as string[]).includes(values.profile)) {
+    throw new Error(`Unsupported profile "${values.profile}". Use ${PROFILES.join(', ')}`);
+  }
+  if (values.delimiter !== undefined && !Object.hasOwn(DELIMITERS, values.delimiter)) {
+    throw new Error(`Unsupported delimiter "${values.delimiter}". Use ${Object.keys(DELIMITERS).join(', ')}`);
+  }
+  if (values.decimal !== undefined && !Object.hasOwn(DECIMAL_SEPARATORS, values.decimal)) {
+    throw new Error(`Unsupported decimal separator "${values.decimal}". Use ${Object.keys(DECIMAL_SEPARATORS).join(', ')}`);
+  }
+
+  return {
+    profile: values.profile as CSVProfile,
+    delimiter: values.delimiter === undefined ? undefined : DELIMITERS[values.delimiter as keyof typeof DELIMITERS],
+    decimalSeparator: values.decimal === undefined ? undefined : DECIMAL_SEPARATORS[values.decimal as keyof typeof DECIMAL_SEPARATORS],
+    bom: values.bom,
+  };
+}
+
+/**
+ * Build journal options from --journal, --accounts, --tracking and --commission
+ */
+async function parseJournalOptions(values: {
+  journal: string;
+  accounts?: string;
+  tracking: string;
+  commission: boolean;
+}): Promise<{ format: JournalFormat; options: JournalOptions }> {
+  if (!Object.hasOwn(JOURNAL_FORMAT_LABELS, values.journal)) {
+    throw new Error(`Unsupported journal format "${values.journal}". Use ${Object.keys(JOURNAL_FORMAT_LABELS).join(', ')}`);
+  }
+  if (!(TRACKING as string[]).includes(values.tracking)) {
+    throw new Error(`Unsupported tracking "${values.tracking}". Use ${TRACKING.join(', ')}`);
+  }
+
+  let accounts: Partial<AccountMapping> | undefined;
+  if (values.accounts) {
+    try {
+      accounts = JSON.parse(await readFile(values.accounts, 'utf8'));
+    } catch (err) {
+      throw new Error(`${values.accounts}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  return {
+    format: values.journal as JournalFormat,
+    options: {
+      accounts,
+      tracking: values.tracking as JournalTracking,
+      includeCommission: values.commission,
+    },
+  };
+}
+
+/**
+ * PDF sections: the --pdf-settings list, or the defaults plus the opt-in
+ * sections turned on by --charts and --transactions
+ */
+function resolvePDFSections(layout: PDFSection[] | undefined, optIn: PDFSection[]): PDFSection[] {
+  if (!layout) {
+    return PDF_SECTIONS.filter((section) => DEFAULT_PDF_SECTIONS.includes(section) || optIn.includes(section));
+  }
+  const missing = optIn.filter((section) => !layout.includes(section));
+  if (missing.length > 0) {
+    throw new Error(`--pdf-settings lists its own sections; add ${missing.map((s) => `"${s}"`).join(' and ')} to them instead`);
+  }
+  return layout;
+}
+
+/**
+ * Sources of reports loaded more than once. Merging keeps the first copy,
+ * whether reports are combined into one statement or split by period.
+ */
+function findDuplicates(reports: ParsedReport[]): ReportSource[] {
+  const seen = new Set<string>();
+  const duplicates: ReportSource[] = [];
+  for (const report of reports) {
+    if (report.sources.some((s) => seen.has(s.fingerprint))) {
+      duplicates.push(...report.sources);
+      continue;
+    }
+    for (const source of report.sources) {
+      seen.add(source.fingerprint);
+    }
+  }
+  return duplicates;
+}
+
+/**
+ * Check --fiscal, which replaces --split
+ */
+function parseFiscalGrouping(value: string | undefined, split: boolean): FiscalGrouping | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!(FISCAL_GROUPINGS as string[]).includes(value)) {
+    throw new Error(`Unsupported fiscal grouping "${value}". Use ${FISCAL_GROUPINGS.join(', ')}`);
+  }
+  if (split) {
+    throw new Error('--split and --fiscal cannot be combined');
+  }
+  return value as FiscalGrouping;
+}
+
+/**
+ * Check --locale against the supported languages
+ */
+function parseLocale(value: string): Locale {
+  if (!Object.hasOwn(LOCALE_LABELS, value)) {
+    throw new Error(`Unsupported locale "${value}". Use ${Object.keys(LOCALE_LABELS).join(', ')}`);
+  }
+  return value as Locale;
+}
+
+/**
+ * Load the PDF font from --font and --bold-font, named after the font file
+ */
+async function loadPDFFont(fontFile: string | undefined, boldFontFile: string | undefined): Promise<PDFFont | undefined> {
+  if (!fontFile) {
+    if (boldFontFile) {
+      throw new Error('--bold-font requires --font');
+    }
+    return undefined;
+  }
+
+  return {
+    name: path.basename(fontFile, path.extname(fontFile)).replace(/[^A-Za-z0-9]/g, ''),
+    normal: await readFile(fontFile),
+    bold: boldFontFile ? await readFile(boldFontFile) : undefined,
+  };
+}
+
+/**
+ * Load branding and layout from --pdf-settings. The logo is a PNG or JPEG
+ * path relative to the settings file.
+ */
+async function loadPDFSettings(settingsFile: string | undefined): Promise<PDFOptions> {
+  if (!settingsFile) {
+    return {};
+  }
+
+  let settings: Omit<PDFOptions, 'logo'> & { logo?: string };
+  try {
+    settings = JSON.parse(await readFile(settingsFile, 'utf8'));
+  } catch (err) {
+    throw new Error(`${settingsFile}: ${err instanceof Error ? err.message : err}`);
+  }
+
+  const unknown = (settings.sections ?? []).filter((section) => !PDF_SECTIONS.includes(section));
+  if (unknown.length > 0) {
+    throw new Error(`${settingsFile}: unknown sections ${unknown.join(', ')}. Use ${PDF_SECTIONS.join(', ')}`);
+  }
+  if (settings.pageSize !== undefined && !['a4', 'letter'].includes(settings.pageSize)) {
+    throw new Error(`${settingsFile}: unsupported page size "${settings.pageSize}". Use a4, letter`);
+  }
+
+  const { logo, ...layout } = settings;
+  if (!logo) {
+    return layout;
+  }
+  const logoPath = path.resolve(path.dirname(settingsFile), logo);
+  const extension = path.extname(logoPath).toLowerCase();
+  if (!['.png', '.jpg', '.jpeg'].includes(extension)) {
+    throw new Error(`${logo}: the logo must be a PNG or JPEG file`);
+  }
+  return {
+    ...layout,
+    logo: { data: await readFile(logoPath), format: extension === '.png' ? 'PNG' : 'JPEG' },
+  };
+}
+
+/**
+ * Load exchange rates from --rates, with the base currency from
+ * --base-currency or the file itself
+ */
+async function loadExchangeRates(
+  ratesFile: string | undefined,
+  baseCurrency: string | undefined
+): Promise<ExchangeRates | undefined> {
+  const base = baseCurrency?.trim().toUpperCase();
+  if (base !== undefined && !/^[A-Z]{3}$/.test(base)) {
+    throw new Error(`Invalid base currency "${baseCurrency}"`);
+  }
+
+  if (!ratesFile) {
+    return base ? { baseCurrency: base, rates: [] } : undefined;
+  }
+
+  const imported = importRates(await readFile(ratesFile, 'utf8'));
+  const resolvedBase = base ?? imported.baseCurrency;
+  if (!resolvedBase) {
+    throw new Error(`${ratesFile} does not state a bank currency; pass --base-currency`);
+  }
+  return { baseCurrency: resolvedBase, rates: imported.rates };
+}
+
+async function runStatement(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o', default: '.' },
+      format: { type: 'string', short: 'f', default: 'pdf' },
+      developer: { type: 'string', short: 'd' },
+      split: { type: 'boolean', default: false },
+      fiscal: { type: 'string' },
+      rates: { type: 'string' },
+      'base-currency': { type: 'string' },
+      profile: { type: 'string', default: 'human' },
+      delimiter: { type: 'string' },
+      decimal: { type: 'string' },
+      bom: { type: 'boolean', default: false },
+      zip: { type: 'boolean', default: false },
+      journal: { type: 'string', default: 'beancount' },
+      accounts: { type: 'string' },
+      tracking: { type: 'string', default: 'none' },
+      commission: { type: 'boolean', default: false },
+      locale: { type: 'string', default: 'en' },
+      font: { type: 'string' },
+      'bold-font': { type: 'string' },
+      transactions: { type: 'boolean', default: false },
+      charts: { type: 'boolean', default: false },
+      'pdf-settings': { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length === 0) {
+    throw new Error('No report files given');
+  }
+
+  const formats = parseFormats(values.format);
+  const fiscal = parseFiscalGrouping(values.fiscal, values.split);
+  const locale = parseLocale(values.locale);
+  const font = await loadPDFFont(values.font, values['bold-font']);
+  const pdfSettings = await loadPDFSettings(values['pdf-settings']);
+  const sections = resolvePDFSections(pdfSettings.sections, [
+    ...(values.charts ? ['charts' as const] : []),
+    ...(values.transactions ? ['transactions' as const] : []),
+  ]);
+  const csvOptions = { ...parseCSVOptions(values), locale };
+  const journal = await parseJournalOptions(values);
+  const exchangeRates = await loadExchangeRates(values.rates, values['base-currency']);
+  const files = await collectReportFiles(positionals);
+  if (files.length === 0) {
+    throw new Error('No .txt, .gz or .zip reports found');
+  }
+
+  const reports = await parseReportFiles(files);
+  for (const duplicate of findDuplicates(reports)) {
+    console.warn(`warning: skipped duplicate report ${duplicate.fileName}`);
+  }
+
+  // Split before merging: Sales and Trends and financial reports can only be
+  // combined within their own type
+  let statements: ParsedReport[];
+  if (fiscal) {
+    const groups = groupByFiscalPeriod(reports, fiscal);
+    for (const group of groups.filter((g) => g.missingPeriods.length > 0)) {
+      console.warn(`warning: ${group.label} (${REPORT_TYPE_LABELS[group.report.metadata.reportType]}): no report for ${group.missingPeriods.map(formatFiscalPeriod).join(', ')}`);
+    }
+    statements = groups.map((g) => g.report);
+  } else if (values.split) {
+    statements = splitByPeriod(reports);
+  } else {
+    statements = [mergeReports(reports).report];
+  }
+  const pdfOptions = {
+    ...pdfSettings,
+    sections,
+    developerNameOverride: values.developer,
+    exchangeRates,
+    locale,
+    font,
+  };
+  // Helvetica would drop the glyphs, so refuse before writing anything
+  if (formats.includes('pdf') && !font) {
+    const unrenderable = statements.find((statement) => needsUnicodeFont(statement, pdfOptions));
+    if (unrenderable) {
+      throw new Error(
+        locale === 'ja'
+          ? 'Japanese statements need a TrueType font; pass --font (e.g. Noto Sans JP)'
+          : `${formatDate(unrenderable.metadata.startDate)} to ${formatDate(unrenderable.metadata.endDate)}: the statement has text Helvetica can't render; pass --font`
+      );
+    }
+  }
+  await mkdir(values.out, { recursive: true });
+
+  for (const statement of statements) {
+    const fiscalLabel = getFiscalLabel(statement.metadata.startDate, statement.metadata.endDate);
+    const period = `${formatDate(statement.metadata.startDate)} to ${formatDate(statement.metadata.endDate)}` +
+      (fiscalLabel ? `, ${fiscalLabel}` : '');
+
+    for (const format of formats) {
+      const written: string[] = [];
+      if (format === 'pdf') {
+        const filePath = path.join(values.out, getPDFFilename(statement));
+        await writeFile(filePath, generatePDFBytes(statement, pdfOptions));
+        written.push(filePath);
+      } else if (format === 'journal') {
+        const filePath = path.join(values.out, getJournalFilename(statement, journal.format));
+        await writeFile(filePath, generateJournal(statement, journal.format, { ...journal.options, exchangeRates }));
+        written.push(filePath);
+      } else if (format === 'xlsx') {
+        const filePath = path.join(values.out, getXLSXFilename(statement));
+        await writeFile(filePath, generateXLSX(statement, { exchangeRates }));
+        written.push(filePath);
+      } else {
+        const files = generateCSVExport(statement, { ...csvOptions, exchangeRates });
+        if (values.zip && files.length > 1) {
+          const filePath = path.join(values.out, getCSVArchiveFilename(statement));
+          await writeFile(filePath, zipCSVFiles(files));
+          written.push(filePath);
+        } else {
+          for (const file of files) {
+            const filePath = path.join(values.out, file.filename);
+            await writeFile(filePath, file.content);
+            written.push(filePath);
+          }
+        }
+      }
+      for (const filePath of written) {
+        console.log(`${filePath} (${period})`);
+      }
+    }
+  }
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...args] = argv;
+
+  switch (command) {
+    case 'statement':
+      await runStatement(args);
+      break;
+    case undefined:
+    case '-h':
+    case '--help':
+    case 'help':
+      console.log(USAGE);
+      break;
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+main(process.argv.slice(2)).catch((err) => {
+  console.error(`appleledger: ${err instanceof Error ? err.message : err}`);
+  process.exitCode = 1;
+});
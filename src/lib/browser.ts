@@ -0,0 +1,115 @@
+/**
+ * Browser Downloads
+ * Helpers that save generated statements through the browser. Kept apart
+ * from the generators so the rest of the library runs in Node and Deno.
+ */
+
+import type { ParsedReport, PeriodComparison } from './types';
+import { generatePDF, getPDFFilename, type PDFFont, type PDFOptions } from './pdf-generator';
+import {
+  generateCSVExport,
+  generateComparisonCSV,
+  getCSVArchiveFilename,
+  getComparisonFilename,
+  zipCSVFiles,
+  type CSVExportOptions,
+  type CSVOptions,
+} from './csv-exporter';
+import { generateXLSX, getXLSXFilename, type XLSXOptions } from './xlsx-exporter';
+import {
+  generateJournal,
+  getJournalFilename,
+  type JournalFormat,
+  type JournalOptions,
+} from './journal-exporter';
+
+/** Options for downloading a CSV export */
+export interface CSVDownloadOptions extends CSVExportOptions {
+  /** Download a multi-file export as one ZIP (default true). With false,
+   *  each file is a separate download, which browsers may block or ask the
+   *  user to allow. */
+  zip?: boolean;
+}
+
+/**
+ * Trigger a browser download of generated content
+ */
+function downloadFile(data: BlobPart, filename: string, type: string): void {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Fetch a TrueType font, e.g. from bundled asset URLs, for `PDFOptions.font`
+ */
+export async function fetchPDFFont(name: string, normalUrl: string, boldUrl?: string): Promise<PDFFont> {
+  const load = async (url: string) => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load font ${url} (${response.status})`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  };
+
+  const [normal, bold] = await Promise.all([load(normalUrl), boldUrl ? load(boldUrl) : undefined]);
+  return { name, normal, bold };
+}
+
+/**
+ * Generate and download the PDF statement
+ */
+export function downloadPDF(report: ParsedReport, options: PDFOptions = {}): void {
+  downloadFile(generatePDF(report, options).output('arraybuffer'), getPDFFilename(report), 'application/pdf');
+}
+
+/**
+ * Generate and download the CSV export in the chosen profile
+ */
+export function downloadCSV(report: ParsedReport, options: CSVDownloadOptions = {}): void {
+  const files = generateCSVExport(report, options);
+  if ((options.zip ?? true) && files.length > 1) {
+    downloadFile(new Uint8Array(zipCSVFiles(files)), getCSVArchiveFilename(report), 'application/zip');
+    return;
+  }
+
+  const type = options.delimiter === '\t'
+    ? 'text/tab-separated-values;charset=utf-8;'
+    : 'text/csv;charset=utf-8;';
+  for (const file of files) {
+    downloadFile(file.content, file.filename, type);
+  }
+}
+
+/**
+ * Generate and download the Excel workbook
+ */
+export function downloadXLSX(report: ParsedReport, options: XLSXOptions = {}): void {
+  downloadFile(
+    new Uint8Array(generateXLSX(report, options)),
+    getXLSXFilename(report),
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  );
+}
+
+/**
+ * Generate and download accounting journal entries
+ */
+export function downloadJournal(report: ParsedReport, format: JournalFormat, options: JournalOptions = {}): void {
+  const type = format === 'xero' || format === 'quickbooks-csv' ? 'text/csv;charset=utf-8;' : 'text/plain;charset=utf-8;';
+  downloadFile(generateJournal(report, format, options), getJournalFilename(report, format), type);
+}
+
+/**
+ * Generate and download a period comparison as CSV
+ */
+export function downloadComparisonCSV(comparison: PeriodComparison, options: Pick<CSVOptions, 'locale'> = {}): void {
+  downloadFile(generateComparisonCSV(comparison, options), getComparisonFilename(comparison), 'text/csv;charset=utf-8;');
+}
@@ -0,0 +1,148 @@
+/**
+ * Commission Analysis
+ * Derives the gross-to-net split (customer spend, tax, Apple commission,
+ * net proceeds) from customer prices and partner share, and flags
+ * transactions not charged at the 15% or 30% commission tier
+ */
+
+import type {
+  ParsedReport,
+  Transaction,
+  CommissionTier,
+  TransactionCommission,
+  CommissionBreakdown,
+  CommissionAnalysis,
+} from './types';
+import { scaleMoney } from './money';
+
+/**
+ * Standard VAT/GST rates included in App Store customer prices, by country
+ * of sale. Storefronts not listed (such as the US and Canada) price
+ * excluding tax. Rates change over time, so tax figures are estimates.
+ */
+export const STOREFRONT_TAX_RATES: Record<string, number> = {
+  AT: 0.2, AU: 0.1, BE: 0.21, BG: 0.2, CH: 0.081, CL: 0.19, CO: 0.19,
+  CY: 0.19, CZ: 0.21, DE: 0.19, DK: 0.25, EE: 0.24, ES: 0.21, FI: 0.255,
+  FR: 0.2, GB: 0.2, GR: 0.24, HR: 0.25, HU: 0.27, IE: 0.23, IL: 0.18,
+  IN: 0.18, IS: 0.24, IT: 0.22, JP: 0.1, KR: 0.1, LT: 0.21, LU: 0.17,
+  LV: 0.21, MT: 0.18, MX: 0.16, NL: 0.21, NO: 0.25, NZ: 0.15, PL: 0.23,
+  PT: 0.23, RO: 0.21, SA: 0.15, SE: 0.25, SG: 0.09, SI: 0.22, SK: 0.23,
+  TR: 0.2, AE: 0.05, ZA: 0.15,
+};
+
+/** Commission tiers Apple charges */
+const TIERS: [CommissionTier, number][] = [
+  ['15%', 0.15],
+  ['30%', 0.3],
+];
+
+/** Allowance for price rounding and tax rate drift, in rate points */
+const TIER_TOLERANCE = 0.02;
+
+/**
+ * Work out the gross-to-net split of a single transaction
+ */
+export function analyzeTransaction(t: Transaction): TransactionCommission {
+  const price = Math.abs(t.customerPrice);
+  const share = Math.abs(t.partnerShare);
+
+  // Prices in another currency can't be compared with proceeds, and free
+  // items carry no commission
+  if (t.customerCurrency !== t.partnerShareCurrency || price === 0) {
+    return {
+      transaction: t,
+      customerSpend: price === 0 ? 0 : null,
+      estimatedTax: price === 0 ? 0 : null,
+      commission: price === 0 ? 0 : null,
+      commissionRate: null,
+      tier: 'unknown',
+    };
+  }
+
+  const taxRate = STOREFRONT_TAX_RATES[t.countryOfSale] ?? 0;
+  const netPrice = price / (1 + taxRate);
+  const commissionRate = 1 - share / netPrice;
+  const tier =
+    TIERS.find(([, rate]) => Math.abs(commissionRate - rate) <= TIER_TOLERANCE)?.[0] ?? 'other';
+
+  // Price and proceeds share a currency, so the minor units compare directly
+  const customerSpend = price * t.quantity;
+  const estimatedTax = scaleMoney(customerSpend, taxRate / (1 + taxRate));
+
+  return {
+    transaction: t,
+    customerSpend,
+    estimatedTax,
+    commission: customerSpend - estimatedTax - t.extendedPartnerShare,
+    commissionRate,
+    tier,
+  };
+}
+
+/**
+ * Sum transaction splits into breakdown rows keyed by category and currency
+ */
+function groupBy(
+  items: TransactionCommission[],
+  classify: (t: Transaction) => { key: string; label: string }
+): CommissionBreakdown[] {
+  const map = new Map<string, CommissionBreakdown>();
+
+  for (const item of items) {
+    const t = item.transaction;
+    const { key, label } = classify(t);
+    const mapKey = `${key}-${t.partnerShareCurrency}`;
+    let existing = map.get(mapKey);
+
+    if (!existing) {
+      existing = {
+        key,
+        label,
+        currency: t.partnerShareCurrency,
+        customerSpend: 0,
+        estimatedTax: 0,
+        commission: 0,
+        netProceeds: 0,
+        commissionRate: null,
+        offTierCount: 0,
+      };
+      map.set(mapKey, existing);
+    }
+
+    existing.customerSpend += item.customerSpend ?? 0;
+    existing.estimatedTax += item.estimatedTax ?? 0;
+    existing.commission += item.commission ?? 0;
+    existing.netProceeds += t.extendedPartnerShare;
+    if (item.tier === 'other') {
+      existing.offTierCount++;
+    }
+  }
+
+  for (const row of map.values()) {
+    const priceExcludingTax = row.customerSpend - row.estimatedTax;
+    row.commissionRate = priceExcludingTax !== 0 ? row.commission / priceExcludingTax : null;
+  }
+
+  return Array.from(map.values()).sort(
+    (a, b) => a.label.localeCompare(b.label) || a.currency.localeCompare(b.currency)
+  );
+}
+
+/**
+ * Build the commission model for a report. Transactions priced in a
+ * different currency from their proceeds are left out of the totals so
+ * that spend − tax − commission always equals net proceeds.
+ */
+export function analyzeCommission(report: ParsedReport): CommissionAnalysis {
+  const all = report.transactions.map(analyzeTransaction);
+  const comparable = all.filter((c) => c.customerSpend !== null);
+
+  return {
+    transactions: all,
+    byCurrency: groupBy(comparable, (t) => ({ key: t.partnerShareCurrency, label: t.partnerShareCurrency })),
+    byCountry: groupBy(comparable, (t) => ({ key: t.countryOfSale, label: t.countryOfSale })),
+    byProduct: groupBy(comparable, (t) => ({ key: t.sku, label: t.title || t.sku })),
+    offTier: all.filter((c) => c.tier === 'other'),
+    excludedCount: all.length - comparable.length,
+  };
+}
@@ -1,95 +1,515 @@
 /**
  * CSV Exporter for Apple App Store Sales Reports
- * Generates CSV files compatible with Google Sheets and Excel
+ * Generates CSV files compatible with Google Sheets and Excel, either as
+ * a readable statement or as tidy tables for pivots and import scripts
  */
 
-import type { ParsedReport } from './types';
-import { formatDate } from './parser';
+import { strToU8, zipSync } from 'fflate';
+import type {
+  ParsedReport,
+  Transaction,
+  ExchangeRates,
+  PayoutInput,
+  PeriodComparison,
+  CommissionAnalysis,
+  MinorUnits,
+} from './types';
+import { aggregateProductsByCurrency, formatDate } from './parser';
+import { convertReport, getRate } from './currency-converter';
+import { reconcilePayout } from './payout-reconciliation';
+import { analyzeSubscriptions, translateSubscriptionLabel } from './subscription-analytics';
+import { analyzeCommission } from './commission-analysis';
+import { getExpectedPaymentDate, getFiscalLabel } from './fiscal-calendar';
+import { convertMoney, formatAmount } from './money';
+import { createTranslator, formatLocalNumber, type Locale, type Translate } from './i18n';
+
+/** Field delimiter of a CSV export; a tab produces a TSV file */
+export type CSVDelimiter = ',' | ';' | '\t';
+
+/**
+ * Layout of a CSV export:
+ * - `human`: one file with a header block, summary tables and transactions
+ * - `transactions`: one tidy table with every transaction field
+ * - `summaries`: one tidy file per summary table
+ */
+export type CSVProfile = 'human' | 'transactions' | 'summaries';
+
+/** CSV generation options */
+export interface CSVOptions {
+  /** When set, totals are also exported converted into the base currency */
+  exchangeRates?: ExchangeRates;
+  /** Deposit to reconcile against; requires exchangeRates */
+  payout?: PayoutInput;
+  /** Field delimiter (default: semicolon when the decimal separator is a
+   *  comma, otherwise comma) */
+  delimiter?: CSVDelimiter;
+  /** Decimal separator for amounts and rates (default: the locale's, e.g.
+   *  ',' for 'de') */
+  decimalSeparator?: '.' | ',';
+  /** Start the file with a UTF-8 byte order mark, so Excel detects the encoding */
+  bom?: boolean;
+  /** Language of titles and column labels in the `human` layout and the
+   *  default decimal separator and delimiter of every profile (default 'en').
+   *  Tidy profiles keep their machine-readable headers, and dates stay ISO
+   *  (YYYY-MM-DD) in every locale so spreadsheets read them as dates. */
+  locale?: Locale;
+}
+
+/** Options for exporting a report with a chosen profile */
+export interface CSVExportOptions extends CSVOptions {
+  /** Layout of the export (default 'human') */
+  profile?: CSVProfile;
+}
+
+/** A generated CSV file */
+export interface CSVFile {
+  filename: string;
+  content: string;
+}
+
+type Cell = string | number;
+
+/**
+ * Formatting helpers bound to the delimiter and decimal separator of an export
+ */
+interface CSVWriter {
+  row(cells: Cell[]): string;
+  amount(amount: MinorUnits, currency: string): string;
+  optionalAmount(amount: MinorUnits | null, currency: string): string;
+  /** Non-money decimal such as a rate; `digits` fixes the decimal places */
+  decimal(value: number | null, digits?: number): string;
+  /** Join rows into file content, adding the byte order mark if requested */
+  file(lines: string[]): string;
+}
+
+function createWriter(options: CSVOptions): CSVWriter {
+  const decimalSeparator = options.decimalSeparator ??
+    (formatLocalNumber(1.5, options.locale).includes(',') ? ',' : '.');
+  const delimiter = options.delimiter ?? (decimalSeparator === ',' ? ';' : ',');
+  const localize = (value: string) =>
+    decimalSeparator === ',' ? value.replace('.', ',') : value;
+
+  return {
+    row: (cells) => cells.map((cell) => escapeCSV(String(cell), delimiter)).join(delimiter),
+    amount: (amount, currency) => localize(formatAmount(amount, currency)),
+    optionalAmount: (amount, currency) =>
+      amount === null ? '' : localize(formatAmount(amount, currency)),
+    decimal: (value, digits) =>
+      value === null ? '' : localize(digits === undefined ? String(value) : value.toFixed(digits)),
+    file: (lines) => (options.bom ? '\uFEFF' : '') + lines.join('\n'),
+  };
+}
 
 /**
- * Generate CSV content from parsed report data
+ * Generate CSV content from parsed report data (the `human` profile)
  */
-export function generateCSV(report: ParsedReport): string {
+export function generateCSV(report: ParsedReport, options: CSVOptions = {}): string {
+  const w = createWriter(options);
+  const t = createTranslator(options.locale);
   const lines: string[] = [];
+  const converted = options.exchangeRates
+    ? convertReport(report, options.exchangeRates)
+    : null;
+  const baseColumn = converted ? [t('col.netProceedsIn', { currency: converted.baseCurrency })] : [];
 
   // Header section
-  lines.push('App Store Sales Report');
-  lines.push(`Vendor,${escapeCSV(report.metadata.vendorName)}`);
-  lines.push(`Period Start,${formatDate(report.metadata.startDate)}`);
-  lines.push(`Period End,${formatDate(report.metadata.endDate)}`);
-  lines.push(`Generated,${new Date().toISOString().split('T')[0]}`);
+  lines.push(w.row([t('csv.title')]));
+  lines.push(w.row([t('csv.vendor'), report.metadata.vendorName]));
+  lines.push(w.row([t('csv.reportType'), t(`reportType.${report.metadata.reportType}`)]));
+  lines.push(w.row([t('col.periodStart'), formatDate(report.metadata.startDate)]));
+  lines.push(w.row([t('col.periodEnd'), formatDate(report.metadata.endDate)]));
+  const fiscalLabel = getFiscalLabel(report.metadata.startDate, report.metadata.endDate);
+  if (fiscalLabel) {
+    lines.push(w.row([t('col.fiscalPeriod'), fiscalLabel]));
+  }
+  // Sales and Trends reports aren't paid out, so they have no payment date
+  if (fiscalLabel && report.metadata.reportType === 'financial') {
+    lines.push(w.row([t('col.expectedPayment'), formatDate(getExpectedPaymentDate(report.metadata.endDate))]));
+  }
+  lines.push(w.row([t('csv.generated'), new Date().toISOString().split('T')[0]]));
+  if (converted) {
+    lines.push(w.row([t('csv.baseCurrency'), converted.baseCurrency]));
+  }
   lines.push('');
 
+  // Source reports (merged statements only)
+  if (report.sources.length > 1) {
+    lines.push(w.row([t('csv.sourceReports')]));
+    lines.push(w.row([t('col.file'), t('col.periodStart'), t('col.periodEnd'), t('col.currencies'), t('col.transactions')]));
+    for (const s of report.sources) {
+      lines.push(
+        w.row([s.fileName, formatDate(s.startDate), formatDate(s.endDate), s.currencies.join(' | '), s.transactionCount])
+      );
+    }
+    lines.push('');
+  }
+
   // Summary by Currency
-  lines.push('SUMMARY BY CURRENCY');
-  lines.push('Currency,Units Sold,Net Proceeds');
-  for (const c of report.summary.byCurrency) {
-    lines.push(`${c.currency},${c.totalQuantity},${c.totalProceeds.toFixed(2)}`);
+  lines.push(w.row([t('csv.summaryByCurrency')]));
+  lines.push(w.row([t('col.currency'), t('col.netUnits'), t('col.unitsReturned'), t('col.grossSales'), t('col.returns'), t('col.netProceeds'), ...baseColumn]));
+  report.summary.byCurrency.forEach((c, i) => {
+    const convertedCell = converted ? [w.optionalAmount(converted.byCurrency[i].convertedProceeds, converted.baseCurrency)] : [];
+    lines.push(
+      w.row([c.currency, c.totalQuantity, c.returnedQuantity, w.amount(c.grossProceeds, c.currency), w.amount(c.returnProceeds, c.currency), w.amount(c.totalProceeds, c.currency), ...convertedCell])
+    );
+  });
+  if (converted) {
+    lines.push(w.row([t('col.total'), '', '', '', '', '', w.amount(converted.totalProceeds, converted.baseCurrency)]));
   }
   lines.push('');
 
+  // Exchange rates used for conversion
+  if (converted && options.exchangeRates) {
+    lines.push(w.row([t('csv.exchangeRates')]));
+    lines.push(w.row([t('col.currency'), t('col.rateTo', { currency: converted.baseCurrency }), t('col.source')]));
+    for (const c of converted.byCurrency) {
+      const source = options.exchangeRates.rates.find((r) => r.currency === c.currency)?.source;
+      const sourceLabel = c.currency === converted.baseCurrency
+        ? t('csv.base')
+        : source ? t(`csv.rateSource.${source}`) : '';
+      lines.push(w.row([c.currency, w.decimal(c.rate), sourceLabel]));
+    }
+    lines.push('');
+  }
+
+  // Payout reconciliation against the bank deposit
+  if (options.exchangeRates && options.payout) {
+    const payout = reconcilePayout(report, options.exchangeRates, options.payout);
+    const base = payout.baseCurrency;
+    lines.push(w.row([t('csv.payout')]));
+    lines.push(w.row([t('col.currency'), t('col.netProceeds'), t('col.rateUsed'), t('col.expectedIn', { currency: base }), t('col.impliedRate')]));
+    for (const l of payout.lines) {
+      lines.push(
+        w.row([l.currency, w.amount(l.netProceeds, l.currency), w.decimal(l.rate), w.optionalAmount(l.expectedAmount, base), w.decimal(l.impliedRate, 6)])
+      );
+    }
+    lines.push(w.row([t('csv.expectedProceeds'), w.amount(payout.expectedProceeds, base)]));
+    lines.push(w.row([t('csv.withholdingTax'), w.amount(-payout.withholdingTax, base)]));
+    lines.push(w.row([t('csv.adjustments'), w.amount(payout.adjustments, base)]));
+    lines.push(w.row([t('csv.expectedDeposit'), w.amount(payout.expectedDeposit, base)]));
+    lines.push(w.row([t('csv.actualDeposit'), w.amount(payout.depositAmount, base)]));
+    lines.push(w.row([t('csv.difference'), w.optionalAmount(payout.difference, base)]));
+    lines.push('');
+  }
+
   // Country & Currency Breakdown
-  lines.push('COUNTRY & CURRENCY BREAKDOWN');
-  lines.push('Country,Currency,Units,Net Proceeds');
-  for (const c of report.summary.byCountry) {
+  lines.push(w.row([t('csv.countries')]));
+  lines.push(w.row([t('col.country'), t('col.currency'), t('col.netUnits'), t('col.unitsReturned'), t('col.grossSales'), t('col.returns'), t('col.netProceeds'), ...baseColumn]));
+  report.summary.byCountry.forEach((c, i) => {
+    const convertedCell = converted ? [w.optionalAmount(converted.byCountry[i].convertedProceeds, converted.baseCurrency)] : [];
     lines.push(
-      `${escapeCSV(c.countryOfSale)},${c.currency},${c.quantity},${c.proceeds.toFixed(2)}`
+      w.row([c.countryOfSale, c.currency, c.quantity, c.returnedQuantity, w.amount(c.grossProceeds, c.currency), w.amount(c.returnProceeds, c.currency), w.amount(c.proceeds, c.currency), ...convertedCell])
     );
-  }
+  });
   lines.push('');
 
   // Product Breakdown
   if (report.summary.byProduct.length > 0) {
-    lines.push('PRODUCT BREAKDOWN');
-    lines.push('Product,SKU,Units,Net Proceeds');
-    for (const p of report.summary.byProduct) {
-      const proceedsStr = Object.entries(p.proceedsByCurrency)
-        .map(([currency, amount]) => `${amount.toFixed(2)} ${currency}`)
+    const byCurrency = (amounts: Record<string, MinorUnits>) =>
+      Object.entries(amounts)
+        .map(([currency, amount]) => `${w.amount(amount, currency)} ${currency}`)
         .join(' | ');
-      lines.push(`${escapeCSV(p.title)},${escapeCSV(p.sku)},${p.quantity},${escapeCSV(proceedsStr)}`);
+
+    lines.push(w.row([t('csv.products')]));
+    lines.push(w.row([t('col.product'), t('col.sku'), t('col.netUnits'), t('col.unitsReturned'), t('col.grossSales'), t('col.returns'), t('col.netProceeds'), ...baseColumn]));
+    report.summary.byProduct.forEach((p, i) => {
+      const convertedCell = converted ? [w.optionalAmount(converted.byProduct[i].convertedProceeds, converted.baseCurrency)] : [];
+      lines.push(
+        w.row([p.title, p.sku, p.quantity, p.returnedQuantity, byCurrency(p.grossByCurrency), byCurrency(p.returnsByCurrency), byCurrency(p.proceedsByCurrency), ...convertedCell])
+      );
+    });
+    lines.push('');
+  }
+
+  // Subscription Breakdown
+  if (report.transactions.length > 0) {
+    lines.push(w.row([t('csv.subscriptions')]));
+    lines.push(w.row([t('col.dimension'), t('col.category'), t('col.currency'), t('col.units'), t('col.netProceeds')]));
+    lines.push(...subscriptionRows(report, w, t));
+    lines.push('');
+  }
+
+  // Gross vs. Net (Apple commission)
+  if (report.transactions.length > 0) {
+    const analysis = analyzeCommission(report);
+    lines.push(w.row([t('csv.commission')]));
+    lines.push(w.row([t('col.breakdown'), t('col.category'), t('col.currency'), t('col.customerSpend'), t('col.estimatedTax'), t('col.commission'), t('col.netProceeds'), t('col.commissionRate'), t('col.offTierTransactions')]));
+    lines.push(...commissionRows(analysis, w, t));
+    if (analysis.excludedCount > 0) {
+      lines.push(w.row([t('csv.excluded'), analysis.excludedCount]));
     }
     lines.push('');
+
+    if (analysis.offTier.length > 0) {
+      lines.push(w.row([t('csv.offTier')]));
+      lines.push(w.row([t('col.date'), t('col.country'), t('col.product'), t('col.sku'), t('col.customerPrice'), t('col.customerCurrency'), t('col.partnerShare'), t('col.currency'), t('col.commissionRate')]));
+      for (const c of analysis.offTier) {
+        const tx = c.transaction;
+        lines.push(
+          w.row([formatDate(tx.transactionDate), tx.countryOfSale, tx.title, tx.sku, w.amount(tx.customerPrice, tx.customerCurrency), tx.customerCurrency, w.amount(tx.partnerShare, tx.partnerShareCurrency), tx.partnerShareCurrency, w.decimal(c.commissionRate, 4)])
+        );
+      }
+      lines.push('');
+    }
   }
 
   // Transaction Details
-  lines.push('TRANSACTION DETAILS');
-  lines.push('Date,Country,Product,SKU,Type,Quantity,Proceeds,Currency');
+  lines.push(w.row([t('csv.transactions')]));
+  lines.push(w.row([t('col.date'), t('col.country'), t('col.product'), t('col.sku'), t('col.type'), t('col.quantity'), t('col.proceeds'), t('col.currency')]));
+  for (const tx of report.transactions) {
+    lines.push(
+      w.row([formatDate(tx.transactionDate), tx.countryOfSale, tx.title, tx.sku, tx.saleOrReturn === 'S' ? t('csv.sale') : t('csv.return'), tx.quantity, w.amount(tx.extendedPartnerShare, tx.partnerShareCurrency), tx.partnerShareCurrency])
+    );
+  }
+
+  return w.file(lines);
+}
+
+/** Columns of the tidy transactions table, in `Transaction` field order */
+const TRANSACTION_COLUMNS: (keyof Transaction)[] = [
+  'transactionDate',
+  'settlementDate',
+  'appleIdentifier',
+  'sku',
+  'title',
+  'developerName',
+  'productTypeIdentifier',
+  'countryOfSale',
+  'quantity',
+  'partnerShare',
+  'extendedPartnerShare',
+  'partnerShareCurrency',
+  'customerPrice',
+  'customerCurrency',
+  'saleOrReturn',
+  'promoCode',
+  'orderType',
+  'region',
+  'subscription',
+  'period',
+  'proceedsReason',
+];
+
+/**
+ * Generate a tidy table with one row per transaction and one column per
+ * `Transaction` field (the `transactions` profile)
+ */
+export function generateTransactionsCSV(report: ParsedReport, options: CSVOptions = {}): string {
+  const w = createWriter(options);
+  const lines = [w.row(TRANSACTION_COLUMNS)];
+
   for (const t of report.transactions) {
     lines.push(
-      `${formatDate(t.transactionDate)},${escapeCSV(t.countryOfSale)},${escapeCSV(t.title)},${escapeCSV(t.sku)},${t.saleOrReturn === 'S' ? 'Sale' : 'Return'},${t.quantity},${t.extendedPartnerShare.toFixed(2)},${t.partnerShareCurrency}`
+      w.row(
+        TRANSACTION_COLUMNS.map((column) => {
+          switch (column) {
+            case 'transactionDate':
+            case 'settlementDate':
+              return formatDate(t[column]);
+            case 'partnerShare':
+            case 'extendedPartnerShare':
+              return w.amount(t[column], t.partnerShareCurrency);
+            case 'customerPrice':
+              return w.amount(t.customerPrice, t.customerCurrency);
+            default:
+              return t[column];
+          }
+        })
+      )
     );
   }
 
-  return lines.join('\n');
+  return w.file(lines);
+}
+
+/**
+ * Generate one tidy file per summary table (the `summaries` profile): a
+ * single header row, one row per item and no totals, ready for pivots
+ */
+export function generateSummaryCSVs(report: ParsedReport, options: CSVOptions = {}): CSVFile[] {
+  const w = createWriter(options);
+  const rates = options.exchangeRates;
+  const name = (table: string) => getCSVFilename(report, options, table);
+
+  // Rate and converted amount columns, when a base currency is set
+  const rateHeaders = rates ? ['baseCurrency', 'rate', 'convertedProceeds'] : [];
+  const rateCells = (amount: MinorUnits, currency: string): Cell[] => {
+    if (!rates) return [];
+    const rate = getRate(rates, currency);
+    return [
+      rates.baseCurrency,
+      w.decimal(rate),
+      rate === null ? '' : w.amount(convertMoney(amount, currency, rate, rates.baseCurrency), rates.baseCurrency),
+    ];
+  };
+
+  const currencies = [w.row(['currency', 'netUnits', 'unitsReturned', 'grossProceeds', 'returnProceeds', 'netProceeds', ...rateHeaders])];
+  for (const c of report.summary.byCurrency) {
+    currencies.push(
+      w.row([c.currency, c.totalQuantity, c.returnedQuantity, w.amount(c.grossProceeds, c.currency), w.amount(c.returnProceeds, c.currency), w.amount(c.totalProceeds, c.currency), ...rateCells(c.totalProceeds, c.currency)])
+    );
+  }
+
+  const countries = [w.row(['countryOfSale', 'currency', 'netUnits', 'unitsReturned', 'grossProceeds', 'returnProceeds', 'netProceeds', ...rateHeaders])];
+  for (const c of report.summary.byCountry) {
+    countries.push(
+      w.row([c.countryOfSale, c.currency, c.quantity, c.returnedQuantity, w.amount(c.grossProceeds, c.currency), w.amount(c.returnProceeds, c.currency), w.amount(c.proceeds, c.currency), ...rateCells(c.proceeds, c.currency)])
+    );
+  }
+
+  // Products are split per currency so every amount column has one currency
+  const products = [w.row(['title', 'sku', 'currency', 'netUnits', 'unitsReturned', 'grossProceeds', 'returnProceeds', 'netProceeds', ...rateHeaders])];
+  for (const p of aggregateProductsByCurrency(report.transactions)) {
+    products.push(
+      w.row([p.title, p.sku, p.currency, p.quantity, p.returnedQuantity, w.amount(p.grossProceeds, p.currency), w.amount(p.returnProceeds, p.currency), w.amount(p.proceeds, p.currency), ...rateCells(p.proceeds, p.currency)])
+    );
+  }
+
+  const files: CSVFile[] = [
+    { filename: name('Currencies'), content: w.file(currencies) },
+    { filename: name('Countries'), content: w.file(countries) },
+    { filename: name('Products'), content: w.file(products) },
+  ];
+
+  if (report.transactions.length > 0) {
+    const subscriptions = [w.row(['dimension', 'category', 'currency', 'units', 'netProceeds']), ...subscriptionRows(report, w)];
+    const commission = [
+      w.row(['breakdown', 'category', 'currency', 'customerSpend', 'estimatedTax', 'commission', 'netProceeds', 'commissionRate', 'offTierTransactions']),
+      ...commissionRows(analyzeCommission(report), w),
+    ];
+    files.push(
+      { filename: name('Subscriptions'), content: w.file(subscriptions) },
+      { filename: name('Commission'), content: w.file(commission) }
+    );
+  }
+
+  return files;
 }
 
 /**
- * Escape a value for CSV (handle commas, quotes, newlines)
+ * Generate the files for an export profile
  */
-function escapeCSV(value: string): string {
-  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
+export function generateCSVExport(report: ParsedReport, options: CSVExportOptions = {}): CSVFile[] {
+  switch (options.profile ?? 'human') {
+    case 'human':
+      return [{ filename: getCSVFilename(report, options), content: generateCSV(report, options) }];
+    case 'transactions':
+      return [{ filename: getCSVFilename(report, options, 'Transactions'), content: generateTransactionsCSV(report, options) }];
+    case 'summaries':
+      return generateSummaryCSVs(report, options);
+  }
+}
+
+/**
+ * Bundle several exported files into a ZIP archive
+ */
+export function zipCSVFiles(files: CSVFile[]): Uint8Array {
+  return zipSync(Object.fromEntries(files.map((f) => [f.filename, strToU8(f.content)])));
+}
+
+/**
+ * Subscription breakdown rows, shared by the human and summaries profiles
+ */
+function subscriptionRows(report: ParsedReport, w: CSVWriter, t: Translate = createTranslator()): string[] {
+  const breakdown = analyzeSubscriptions(report);
+  const groups: [string, 'byProductType' | 'byRenewal' | 'byOffer'][] = [
+    [t('csv.productType'), 'byProductType'],
+    [t('csv.subscriptionStage'), 'byRenewal'],
+    [t('csv.offer'), 'byOffer'],
+  ];
+  return groups.flatMap(([label, dimension]) =>
+    breakdown[dimension].map((row) =>
+      w.row([label, translateSubscriptionLabel(dimension, row, t), row.currency, row.quantity, w.amount(row.proceeds, row.currency)])
+    )
+  );
+}
+
+/**
+ * Gross vs. net rows by currency, country and product
+ */
+function commissionRows(analysis: CommissionAnalysis, w: CSVWriter, t: Translate = createTranslator()): string[] {
+  const groups: [string, typeof analysis.byCurrency][] = [
+    [t('col.currency'), analysis.byCurrency],
+    [t('col.country'), analysis.byCountry],
+    [t('col.product'), analysis.byProduct],
+  ];
+  return groups.flatMap(([breakdown, rows]) =>
+    rows.map((r) =>
+      w.row([breakdown, r.label, r.currency, w.amount(r.customerSpend, r.currency), w.amount(r.estimatedTax, r.currency), w.amount(r.commission, r.currency), w.amount(r.netProceeds, r.currency), w.decimal(r.commissionRate, 4), r.offTierCount])
+    )
+  );
+}
+
+/**
+ * Escape a value for CSV (handle delimiters, quotes, newlines)
+ */
+export function escapeCSV(value: string, delimiter = ','): string {
+  if (value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
     return `"${value.replace(/"/g, '""')}"`;
   }
   return value;
 }
 
 /**
- * Download CSV file
+ * File name for a report's CSV export; `table` names one file of a
+ * multi-file export. Tab-delimited exports get a .tsv extension.
  */
-export function downloadCSV(report: ParsedReport): void {
-  const csv = generateCSV(report);
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-  const url = URL.createObjectURL(blob);
+export function getCSVFilename(report: ParsedReport, options: CSVOptions = {}, table = 'Report'): string {
+  const periodStart = formatDate(report.metadata.startDate);
+  const periodEnd = formatDate(report.metadata.endDate);
+  const extension = options.delimiter === '\t' ? 'tsv' : 'csv';
+  return `AppStore_${table}_${periodStart}_${periodEnd}.${extension}`;
+}
 
+/**
+ * File name for a ZIP of a report's CSV files
+ */
+export function getCSVArchiveFilename(report: ParsedReport): string {
   const periodStart = formatDate(report.metadata.startDate);
   const periodEnd = formatDate(report.metadata.endDate);
-  const filename = `AppStore_Report_${periodStart}_${periodEnd}.csv`;
-
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = filename;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  return `AppStore_Report_${periodStart}_${periodEnd}.zip`;
+}
+
+/**
+ * Generate CSV content comparing two periods
+ */
+export function generateComparisonCSV(comparison: PeriodComparison, options: Pick<CSVOptions, 'locale'> = {}): string {
+  const t = createTranslator(options.locale);
+  const w = createWriter({ locale: options.locale });
+  const lines: string[] = [];
+  const { previous, current } = comparison;
+  const row = w.row;
+
+  lines.push(row([t('csv.comparisonTitle')]));
+  lines.push(row([t('csv.previousPeriod'), formatDate(previous.startDate), formatDate(previous.endDate)]));
+  lines.push(row([t('csv.currentPeriod'), formatDate(current.startDate), formatDate(current.endDate)]));
+  lines.push(row([t('csv.generated'), new Date().toISOString().split('T')[0]]));
+  lines.push('');
+
+  const groups: [string, typeof comparison.byCurrency][] = [
+    [t('csv.comparisonByCurrency'), comparison.byCurrency],
+    [t('csv.comparisonByCountry'), comparison.byCountry],
+    [t('csv.comparisonByProduct'), comparison.byProduct],
+  ];
+  for (const [title, rows] of groups) {
+    lines.push(row([title]));
+    lines.push(row([t('col.category'), t('col.key'), t('col.currency'), t('col.previousUnits'), t('col.currentUnits'), t('col.previousProceeds'), t('col.currentProceeds'), t('col.change'), t('col.changePercent'), t('col.status')]));
+    for (const r of rows) {
+      lines.push(
+        row([r.label, r.key, r.currency, r.previousQuantity, r.currentQuantity, w.amount(r.previousProceeds, r.currency), w.amount(r.currentProceeds, r.currency), w.amount(r.change, r.currency), w.decimal(r.percentChange === null ? null : r.percentChange * 100, 1), r.status])
+      );
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * File name for a period comparison CSV
+ */
+export function getComparisonFilename(comparison: PeriodComparison): string {
+  const previousEnd = formatDate(comparison.previous.endDate);
+  const currentEnd = formatDate(comparison.current.endDate);
+  return `AppStore_Comparison_${previousEnd}_${currentEnd}.csv`;
 }
@@ -0,0 +1,208 @@
+/**
+ * Currency Converter
+ * Converts report totals into a single base currency using exchange rates
+ * supplied by the user, imported from a CSV, or taken from Apple's
+ * "Payments and Financial Reports" payment summary
+ */
+
+import Papa from 'papaparse';
+import type {
+  ParsedReport,
+  ExchangeRate,
+  ExchangeRates,
+  ConvertedSummary,
+  ConvertedCurrencySummary,
+  ConvertedCountryBreakdown,
+  ConvertedProductBreakdown,
+  MinorUnits,
+} from './types';
+import { convertMoney } from './money';
+
+/** Rates parsed from an imported file */
+export interface ImportedRates {
+  /** Bank account currency, when the file states it */
+  baseCurrency: string | null;
+  rates: ExchangeRate[];
+}
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+/**
+ * Look up the rate for a currency (the base currency always converts at 1)
+ */
+export function getRate(rates: ExchangeRates, currency: string): number | null {
+  if (currency === rates.baseCurrency) {
+    return 1;
+  }
+  return rates.rates.find((r) => r.currency === currency)?.rate ?? null;
+}
+
+/**
+ * Convert an amount into the base currency, or null when no rate is known
+ */
+function convert(
+  amount: MinorUnits,
+  currency: string,
+  rate: number | null,
+  baseCurrency: string
+): MinorUnits | null {
+  return rate === null ? null : convertMoney(amount, currency, rate, baseCurrency);
+}
+
+/**
+ * Parse a rate written with a decimal point or a decimal comma, with or
+ * without thousands separators. When both separators appear the last one is
+ * the decimal mark. A lone comma followed by exactly three digits ("1,085")
+ * could be either, so it is rejected rather than guessed. Returns NaN for
+ * anything that isn't a number.
+ */
+function parseAmount(value: string | undefined): number {
+  const text = (value ?? '').replace(/\s/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastPoint = text.lastIndexOf('.');
+
+  let normalized = text;
+  if (lastComma !== -1 && lastPoint !== -1) {
+    normalized = lastComma > lastPoint
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else if (lastComma !== -1) {
+    if (/^[+-]?\d{1,3}(,\d{3}){2,}$/.test(text)) {
+      normalized = text.replace(/,/g, '');
+    } else if (/^[+-]?[1-9]\d{0,2},\d{3}$/.test(text)) {
+      throw new Error(`Exchange rate "${value}" is ambiguous: write it with a decimal point (e.g. 1.085) or without thousands separators`);
+    } else {
+      normalized = text.replace(',', '.');
+    }
+  }
+
+  return /^[+-]?(\d+\.?\d*|\.\d+)$/.test(normalized) ? parseFloat(normalized) : NaN;
+}
+
+/**
+ * Parse Apple's payment summary ("Region (Currency)", ..., "Exchange Rate",
+ * "Proceeds", "Bank Account Currency")
+ */
+function parsePaymentSummary(rows: string[][], headerIdx: number): ImportedRates {
+  const headers = rows[headerIdx].map((h) => h.trim());
+  const regionIdx = headers.findIndex((h) => h.startsWith('Region'));
+  const rateIdx = headers.indexOf('Exchange Rate');
+  const bankCurrencyIdx = headers.indexOf('Bank Account Currency');
+
+  let baseCurrency: string | null = null;
+  const rates: ExchangeRate[] = [];
+
+  for (const row of rows.slice(headerIdx + 1)) {
+    const currency = row[regionIdx]?.match(/\(([A-Z]{3})\)/)?.[1];
+    const rate = parseAmount(row[rateIdx]);
+    if (!currency || !(rate > 0)) continue;
+
+    const bankCurrency = row[bankCurrencyIdx]?.trim();
+    if (bankCurrency && CURRENCY_CODE.test(bankCurrency)) {
+      baseCurrency = bankCurrency;
+    }
+
+    // Apple lists some currencies under several regions with the same rate
+    if (!rates.some((r) => r.currency === currency)) {
+      rates.push({ currency, rate, source: 'apple' });
+    }
+  }
+
+  return { baseCurrency, rates };
+}
+
+/**
+ * Import exchange rates from a file. Accepts either Apple's payment summary
+ * export or a simple two-column "currency,rate" CSV.
+ */
+export function importRates(content: string): ImportedRates {
+  const { data } = Papa.parse<string[]>(content.replace(/^\uFEFF/, ''), {
+    skipEmptyLines: true,
+  });
+
+  const paymentHeaderIdx = data.findIndex((row) =>
+    row.some((cell) => cell.trim() === 'Exchange Rate')
+  );
+  if (paymentHeaderIdx !== -1) {
+    return parsePaymentSummary(data, paymentHeaderIdx);
+  }
+
+  const rates: ExchangeRate[] = [];
+  for (const row of data) {
+    const currency = row[0]?.trim().toUpperCase();
+    const rate = parseAmount(row[1]);
+    // Header rows and blank lines fall through here
+    if (!currency || !CURRENCY_CODE.test(currency) || !(rate > 0)) continue;
+    rates.push({ currency, rate, source: 'csv' });
+  }
+
+  if (rates.length === 0) {
+    throw new Error('No exchange rates found. Expected "currency,rate" rows or an Apple payment summary.');
+  }
+
+  return { baseCurrency: null, rates };
+}
+
+/**
+ * Convert a report's currency, country and product totals into the base currency
+ */
+export function convertReport(
+  report: ParsedReport,
+  rates: ExchangeRates
+): ConvertedSummary {
+  const base = rates.baseCurrency;
+  const missing = new Set<string>();
+  const rateFor = (currency: string) => {
+    const rate = getRate(rates, currency);
+    if (rate === null) missing.add(currency);
+    return rate;
+  };
+
+  const byCurrency: ConvertedCurrencySummary[] = report.summary.byCurrency.map((c) => {
+    const rate = rateFor(c.currency);
+    return {
+      ...c,
+      rate,
+      convertedGross: convert(c.grossProceeds, c.currency, rate, base),
+      convertedReturns: convert(c.returnProceeds, c.currency, rate, base),
+      convertedProceeds: convert(c.totalProceeds, c.currency, rate, base),
+    };
+  });
+
+  const byCountry: ConvertedCountryBreakdown[] = report.summary.byCountry.map((c) => {
+    const rate = rateFor(c.currency);
+    return { ...c, rate, convertedProceeds: convert(c.proceeds, c.currency, rate, base) };
+  });
+
+  const byProduct: ConvertedProductBreakdown[] = report.summary.byProduct.map((p) => {
+    let convertedProceeds: MinorUnits | null = 0;
+    for (const [currency, amount] of Object.entries(p.proceedsByCurrency)) {
+      const converted = convert(amount, currency, rateFor(currency), base);
+      convertedProceeds = converted === null || convertedProceeds === null
+        ? null
+        : convertedProceeds + converted;
+    }
+    return { ...p, convertedProceeds };
+  });
+
+  const sum = (values: (MinorUnits | null)[]) =>
+    values.reduce<MinorUnits>((total, v) => total + (v ?? 0), 0);
+
+  return {
+    baseCurrency: rates.baseCurrency,
+    byCurrency,
+    byCountry,
+    byProduct,
+    totalGross: sum(byCurrency.map((c) => c.convertedGross)),
+    totalReturns: sum(byCurrency.map((c) => c.convertedReturns)),
+    totalProceeds: sum(byCurrency.map((c) => c.convertedProceeds)),
+    missingRates: Array.from(missing).sort(),
+  };
+}
+
+/**
+ * Describe a rate for display, e.g. "1 EUR = 1.0850 USD"
+ */
+export function formatRate(currency: string, rate: number, baseCurrency: string): string {
+  return `1 ${currency} = ${rate.toFixed(4)} ${baseCurrency}`;
+}
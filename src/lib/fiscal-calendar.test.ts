@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAppleReport } from './parser';
+import { groupByFiscalPeriod } from './fiscal-calendar';
+import { FINANCIAL_REPORT, SALES_REPORT } from './test-fixtures';
+
+test('groups mixed report types into separate fiscal groups', () => {
+  const financial = parseAppleReport(FINANCIAL_REPORT, 'financial.txt');
+  const sales = parseAppleReport(SALES_REPORT, 'sales.txt');
+
+  const groups = groupByFiscalPeriod([sales, financial], 'quarter');
+
+  assert.deepEqual(
+    groups.map((g) => [g.label, g.report.metadata.reportType, g.report.sources.map((s) => s.fileName)]),
+    [
+      ['FY26 Q1', 'financial', ['financial.txt']],
+      ['FY26 Q1', 'sales', ['sales.txt']],
+    ]
+  );
+  assert.deepEqual(groups[0].missingPeriods.map((p) => p.period), [1, 2]);
+});
@@ -0,0 +1,251 @@
+/**
+ * Fiscal Calendar
+ * Apple's fiscal year ends on the last Saturday of September and its
+ * quarters are split into fiscal months of 5, 4 and 4 weeks. Financial
+ * reports cover exactly one fiscal month (e.g. 11/30/2025 to 12/27/2025 is
+ * FY26 P03, Apple's December), so they rarely line up with calendar months.
+ */
+
+import type {
+  ParsedReport,
+  ReportType,
+  FiscalPeriod,
+  FiscalGroup,
+  CalendarMonthAccrual,
+} from './types';
+import { mergeReports } from './report-merger';
+
+/** How reports are combined by `groupByFiscalPeriod` */
+export type FiscalGrouping = 'quarter' | 'year';
+
+const DAY_MS = 86_400_000;
+
+/** Weeks in each fiscal month of a quarter */
+const QUARTER_WEEKS = [5, 4, 4];
+
+/** Apple pays no later than this many days after a fiscal month ends */
+const PAYMENT_DAYS = 45;
+
+/**
+ * Read an MM/DD/YYYY date as a day number (days since 1970-01-01).
+ * Returns null for anything that isn't a real calendar day.
+ */
+function toDay(date: string): number | null {
+  const match = date.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!match) return null;
+  const [month, day, year] = match.slice(1).map(Number);
+  const time = Date.UTC(year, month - 1, day);
+  const parsed = new Date(time);
+  if (parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) return null;
+  return time / DAY_MS;
+}
+
+/**
+ * Format a day number as MM/DD/YYYY
+ */
+function fromDay(day: number): string {
+  const date = new Date(day * DAY_MS);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}/${date.getUTCFullYear()}`;
+}
+
+/**
+ * Last day of a fiscal year: the last Saturday of September
+ */
+function fiscalYearEnd(fiscalYear: number): number {
+  const september30 = Date.UTC(fiscalYear, 8, 30) / DAY_MS;
+  const weekday = new Date(september30 * DAY_MS).getUTCDay();
+  return september30 - ((weekday + 1) % 7);
+}
+
+/**
+ * The twelve fiscal months of a fiscal year. A 53-week year, which comes
+ * round every five or six years, adds the extra week to December (P03).
+ */
+export function getFiscalPeriods(fiscalYear: number): FiscalPeriod[] {
+  let start = fiscalYearEnd(fiscalYear - 1) + 1;
+  const longYear = fiscalYearEnd(fiscalYear) - start + 1 === 53 * 7;
+  const periods: FiscalPeriod[] = [];
+
+  for (let i = 0; i < 12; i++) {
+    const weeks = QUARTER_WEEKS[i % 3] + (longYear && i === 2 ? 1 : 0);
+    periods.push({
+      fiscalYear,
+      period: i + 1,
+      quarter: Math.floor(i / 3) + 1,
+      month: ((i + 9) % 12) + 1,
+      startDate: fromDay(start),
+      endDate: fromDay(start + weeks * 7 - 1),
+      weeks,
+    });
+    start += weeks * 7;
+  }
+
+  return periods;
+}
+
+/**
+ * Find the fiscal month an MM/DD/YYYY date falls in.
+ * Returns null when the date can't be read.
+ */
+export function getFiscalPeriod(date: string): FiscalPeriod | null {
+  const day = toDay(date);
+  if (day === null) return null;
+
+  const calendarYear = new Date(day * DAY_MS).getUTCFullYear();
+  const fiscalYear = day > fiscalYearEnd(calendarYear) ? calendarYear + 1 : calendarYear;
+  return getFiscalPeriods(fiscalYear).find((p) => toDay(p.endDate)! >= day)!;
+}
+
+/**
+ * Short fiscal year label, e.g. "FY26"
+ */
+export function formatFiscalYear(fiscalYear: number): string {
+  return `FY${String(fiscalYear % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Fiscal month label, e.g. "FY26 P03"
+ */
+export function formatFiscalPeriod(period: FiscalPeriod): string {
+  return `${formatFiscalYear(period.fiscalYear)} P${String(period.period).padStart(2, '0')}`;
+}
+
+/**
+ * Label a reporting period in fiscal terms: "FY26 P03" within one fiscal
+ * month, "FY26 Q1" or "FY26" for exactly a quarter or year, otherwise the
+ * span ("FY26 P02–P03"). Empty when the dates can't be read.
+ */
+export function getFiscalLabel(startDate: string, endDate: string): string {
+  const first = getFiscalPeriod(startDate);
+  const last = getFiscalPeriod(endDate);
+  if (!first || !last) return '';
+
+  if (first.fiscalYear !== last.fiscalYear) {
+    return `${formatFiscalPeriod(first)}–${formatFiscalPeriod(last)}`;
+  }
+  if (first.period === last.period) {
+    return formatFiscalPeriod(first);
+  }
+
+  const exact = toDay(startDate) === toDay(first.startDate) && toDay(endDate) === toDay(last.endDate);
+  if (exact && first.period === 1 && last.period === 12) {
+    return formatFiscalYear(first.fiscalYear);
+  }
+  if (exact && first.quarter === last.quarter && first.period % 3 === 1 && last.period % 3 === 0) {
+    return `${formatFiscalYear(first.fiscalYear)} Q${first.quarter}`;
+  }
+  return `${formatFiscalPeriod(first)}–P${String(last.period).padStart(2, '0')}`;
+}
+
+/**
+ * Latest date Apple pays for the fiscal month a report ends in (45 days
+ * after the month ends, provided the payment threshold is met and banking
+ * and tax details are complete), as MM/DD/YYYY. Empty when the end date
+ * can't be read.
+ */
+export function getExpectedPaymentDate(endDate: string): string {
+  const period = getFiscalPeriod(endDate);
+  return period ? fromDay(toDay(period.endDate)! + PAYMENT_DAYS) : '';
+}
+
+/**
+ * Combine reports into one merged report per fiscal quarter or year, by the
+ * fiscal month each report ends in, oldest first. Sales and Trends reports
+ * are grouped apart from financial ones. Fiscal months of a group that no
+ * report ends in are listed so incomplete quarters stand out.
+ */
+export function groupByFiscalPeriod(reports: ParsedReport[], grouping: FiscalGrouping): FiscalGroup[] {
+  const groups = new Map<string, { fiscalYear: number; quarter: number | null; reportType: ReportType; reports: ParsedReport[]; periods: Set<number> }>();
+
+  for (const report of reports) {
+    const period = getFiscalPeriod(report.metadata.endDate);
+    if (!period) {
+      const name = report.sources[0]?.fileName || 'report';
+      throw new Error(`Cannot place ${name} in the fiscal calendar: end date "${report.metadata.endDate}" is not MM/DD/YYYY`);
+    }
+
+    const quarter = grouping === 'quarter' ? period.quarter : null;
+    const { reportType } = report.metadata;
+    const key = `${period.fiscalYear}-${quarter ?? 0}-${reportType}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { fiscalYear: period.fiscalYear, quarter, reportType, reports: [], periods: new Set() };
+      groups.set(key, group);
+    }
+    group.reports.push(report);
+    group.periods.add(period.period);
+  }
+
+  return Array.from(groups.values())
+    .sort((a, b) =>
+      a.fiscalYear - b.fiscalYear || (a.quarter ?? 0) - (b.quarter ?? 0) || a.reportType.localeCompare(b.reportType)
+    )
+    .map((group) => {
+      const periods = getFiscalPeriods(group.fiscalYear)
+        .filter((p) => group.quarter === null || p.quarter === group.quarter);
+      const year = formatFiscalYear(group.fiscalYear);
+
+      return {
+        label: group.quarter === null ? year : `${year} Q${group.quarter}`,
+        fiscalYear: group.fiscalYear,
+        quarter: group.quarter,
+        startDate: periods[0].startDate,
+        endDate: periods[periods.length - 1].endDate,
+        report: mergeReports(group.reports).report,
+        missingPeriods: periods.filter((p) => !group.periods.has(p.period)),
+      };
+    });
+}
+
+/**
+ * Spread each report's net proceeds over the calendar months its period
+ * covers, in proportion to days, for accrual accounting. Each report's
+ * months add up to exactly its total; months are returned in order.
+ */
+export function prorateToCalendarMonths(reports: ParsedReport[]): CalendarMonthAccrual[] {
+  const months = new Map<string, CalendarMonthAccrual>();
+
+  for (const report of reports) {
+    const start = toDay(report.metadata.startDate);
+    const end = toDay(report.metadata.endDate);
+    if (start === null || end === null || end < start) {
+      const name = report.sources[0]?.fileName || 'report';
+      throw new Error(`Cannot prorate ${name}: its reporting period is not a valid MM/DD/YYYY range`);
+    }
+
+    // Split the period at calendar month boundaries
+    const segments: { month: string; days: number }[] = [];
+    for (let day = start; day <= end;) {
+      const date = new Date(day * DAY_MS);
+      const monthEnd = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0) / DAY_MS;
+      const segmentEnd = Math.min(monthEnd, end);
+      segments.push({
+        month: `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`,
+        days: segmentEnd - day + 1,
+      });
+      day = segmentEnd + 1;
+    }
+
+    // Rounding the running total keeps the months summing to the report total
+    const totalDays = end - start + 1;
+    for (const { currency, totalProceeds } of report.summary.byCurrency) {
+      let daysSoFar = 0;
+      let allocated = 0;
+      for (const segment of segments) {
+        daysSoFar += segment.days;
+        const amount = Math.round((totalProceeds * daysSoFar) / totalDays) - allocated;
+        allocated += amount;
+
+        let accrual = months.get(segment.month);
+        if (!accrual) {
+          accrual = { month: segment.month, proceedsByCurrency: {} };
+          months.set(segment.month, accrual);
+        }
+        accrual.proceedsByCurrency[currency] = (accrual.proceedsByCurrency[currency] ?? 0) + amount;
+      }
+    }
+  }
+
+  return Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month));
+}
@@ -0,0 +1,741 @@
+/**
+ * Localization
+ * Translation catalog for statement labels and locale-aware number and
+ * date formatting. English is the reference catalog; every other locale
+ * must provide the same keys.
+ */
+
+/** Languages statements can be generated in */
+export type Locale = 'en' | 'de' | 'ja';
+
+/** Language names for pickers, each in its own language */
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  ja: '日本語',
+};
+
+/** BCP 47 tags used for Intl number and date formatting */
+const INTL_LOCALES: Record<Locale, string> = {
+  en: 'en-US',
+  de: 'de-DE',
+  ja: 'ja-JP',
+};
+
+/**
+ * Messages use `{name}` placeholders. Messages with a `|` pick the part
+ * before it when `count` is singular in the locale and the part after it
+ * otherwise.
+ */
+const en = {
+  // Column labels
+  'col.currency': 'Currency',
+  'col.currencies': 'Currencies',
+  'col.country': 'Country',
+  'col.product': 'Product',
+  'col.sku': 'SKU',
+  'col.units': 'Units',
+  'col.netUnits': 'Net Units',
+  'col.unitsReturned': 'Units Returned',
+  'col.grossSales': 'Gross Sales',
+  'col.returns': 'Returns',
+  'col.netProceeds': 'Net Proceeds',
+  'col.netIn': 'Net ({currency})',
+  'col.netProceedsIn': 'Net Proceeds ({currency})',
+  'col.totalIn': 'Total ({currency})',
+  'col.total': 'Total',
+  'col.file': 'File',
+  'col.period': 'Period',
+  'col.periodStart': 'Period Start',
+  'col.periodEnd': 'Period End',
+  'col.fiscalPeriod': 'Apple Fiscal Period',
+  'col.expectedPayment': 'Expected Payment By',
+  'col.transactions': 'Transactions',
+  'col.category': 'Category',
+  'col.key': 'Key',
+  'col.dimension': 'Dimension',
+  'col.breakdown': 'Breakdown',
+  'col.previous': 'Previous',
+  'col.current': 'Current',
+  'col.change': 'Change',
+  'col.changePercent': 'Change %',
+  'col.previousUnits': 'Previous Units',
+  'col.currentUnits': 'Current Units',
+  'col.previousProceeds': 'Previous Proceeds',
+  'col.currentProceeds': 'Current Proceeds',
+  'col.status': 'Status',
+  'col.rate': 'Rate',
+  'col.rateTo': 'Rate to {currency}',
+  'col.source': 'Source',
+  'col.rateUsed': 'Rate Used',
+  'col.expectedIn': 'Expected ({currency})',
+  'col.impliedRate': 'Implied Rate',
+  'col.productCurrency': 'Product / Currency',
+  'col.customerSpend': 'Customer Spend',
+  'col.estTax': 'Est. Tax',
+  'col.estimatedTax': 'Estimated Tax',
+  'col.commission': 'Commission',
+  'col.commissionRate': 'Commission Rate',
+  'col.offTierTransactions': 'Off-Tier Transactions',
+  'col.date': 'Date',
+  'col.type': 'Type',
+  'col.quantity': 'Quantity',
+  'col.price': 'Price',
+  'col.customerPrice': 'Customer Price',
+  'col.customerCurrency': 'Customer Currency',
+  'col.partnerShare': 'Partner Share',
+  'col.proceeds': 'Proceeds',
+  'col.unitsAppleParsed': 'Units (Apple / Parsed)',
+  'col.appleTotal': 'Apple Total',
+  'col.parsedTotal': 'Parsed Total',
+
+  // Statement header
+  'pdf.title': 'App Store Sales Statement',
+  'pdf.developer': 'Developer',
+  'pdf.platform': 'Platform',
+  'pdf.platformValue': 'Apple App Store — {type}',
+  'pdf.reportingPeriod': 'Reporting Period',
+  'pdf.generated': 'Generated',
+  'pdf.vatId': 'VAT ID: {id}',
+  'pdf.page': 'Page {page} of {pages}',
+  'period.range': '{start} to {end}',
+  'reportType.financial': 'Financial Report',
+  'reportType.sales': 'Sales and Trends',
+
+  // PDF sections
+  'section.summary': 'Summary',
+  'section.sourceReports': 'Source Reports',
+  'section.comparison': 'Period Comparison',
+  'section.payout': 'Payout Reconciliation',
+  'section.countries': 'Country & Currency Breakdown',
+  'section.products': 'Product Breakdown',
+  'section.subscriptions': 'Subscription Breakdown',
+  'section.commission': 'Gross vs. Net Proceeds',
+  'section.integrity': 'Report Integrity',
+  'section.taxNotice': 'Tax Handling Notice',
+  'section.transactions': 'Appendix: Transaction Details',
+  'transactions.subtotal': 'Subtotal {currency}',
+  'section.charts': 'Revenue Trends',
+  'charts.timelineDay': 'Net proceeds per day',
+  'charts.timelineWeek': 'Net proceeds per week',
+  'charts.countries': 'Share of proceeds by country',
+  'charts.products': 'Top products',
+  'charts.unitsVsProceeds': 'Units vs. proceeds by product type',
+  'charts.other': 'Other',
+  'charts.currency': 'Amounts in {currency}',
+  'charts.excluded': '{count} transaction in another currency without an exchange rate is not included.|{count} transactions in other currencies without an exchange rate are not included.',
+
+  // Summary
+  'count.currencies': '{count} currency|{count} currencies',
+  'count.transactions': '{count} transaction|{count} transactions',
+  'count.returns': '{count} return|{count} returns',
+  'summary.missingRates': 'No exchange rate for {currencies}; excluded from {base} totals.',
+
+  // Period comparison
+  'comparison.intro': '{current} compared with {previous}',
+  'comparison.byCurrency': 'By Currency',
+  'comparison.byCountry': 'By Country',
+  'comparison.byProduct': 'By Product',
+  'comparison.newCountries': 'New countries',
+  'comparison.removedCountries': 'Countries with no sales this period',
+  'comparison.newProducts': 'New products',
+  'comparison.removedProducts': 'Products with no sales this period',
+  'status.new': 'New',
+  'status.gone': 'Gone',
+
+  // Payout reconciliation
+  'payout.depositIntro': 'Net proceeds are reconciled below against the {deposit} deposit received from Apple. Implied rates are the effective rates Apple applied, derived from the deposit; any difference they do not explain is shown separately.',
+  'payout.convertedIntro': 'Net proceeds were generated in multiple currencies and have been converted to {base} using the exchange rates below. These rates were supplied for this statement and may differ from the internal rates Apple applies to the consolidated payout.',
+  'payout.defaultIntro': 'Net proceeds were generated in multiple currencies. Apple converts all proceeds using internal exchange rates and remits a single consolidated payout to the developer\'s bank account. Exchange rates used by Apple are not disclosed in this report.',
+  'payout.notProvided': 'Not provided',
+  'payout.baseCurrency': 'Base currency',
+  'payout.expectedProceeds': 'Expected proceeds',
+  'payout.withholdingTax': 'Withholding tax',
+  'payout.adjustments': 'Adjustments',
+  'payout.expectedDeposit': 'Expected deposit',
+  'payout.actualDeposit': 'Actual deposit',
+  'payout.difference': 'Unexplained difference',
+  'payout.differenceUnknown': 'Cannot be determined (rates missing for several currencies)',
+  'rateSource.manual': 'Entered manually',
+  'rateSource.csv': 'Imported CSV',
+  'rateSource.apple': 'Apple payment summary',
+
+  // Products and subscriptions
+  'products.units': '{count} unit|{count} units',
+  'products.returned': ', {count} returned',
+  'subscriptions.byProductType': 'By Product Type',
+  'subscriptions.byRenewal': 'Auto-Renewable Subscriptions: New vs. Renewal',
+  'subscriptions.byOffer': 'By Offer / Promo Code',
+  'subscriptions.noOffer': 'No offer',
+  'subscriptions.unknownType': 'Unknown',
+  'renewal.new': 'New subscription',
+  'renewal.renewal': 'Renewal (first year)',
+  'renewal.after-one-year': 'Renewal (after one year)',
+  'renewal.unknown': 'Not specified',
+  'productType.1': 'Paid App',
+  'productType.1F': 'Free App',
+  'productType.1T': 'Paid App (iPad)',
+  'productType.1E': 'Paid App (Custom)',
+  'productType.1EP': 'Paid App (Custom, Mac)',
+  'productType.1EU': 'Paid App (Custom, Universal)',
+  'productType.F1': 'Paid App (Mac)',
+  'productType.FI1': 'In-App Purchase (Mac)',
+  'productType.IA1': 'In-App Purchase',
+  'productType.IA1-M': 'In-App Purchase (Mac)',
+  'productType.IA9': 'Non-Renewing Subscription',
+  'productType.IA9-M': 'Non-Renewing Subscription (Mac)',
+  'productType.IAY': 'Auto-Renewable Subscription',
+  'productType.IAY-M': 'Auto-Renewable Subscription (Mac)',
+  'productType.IAC': 'Free Subscription',
+  'productType.IAC-M': 'Free Subscription (Mac)',
+
+  // Gross vs. net
+  'commission.intro': 'Customer spend is the price paid by customers. Tax is estimated from each storefront\'s standard VAT/GST rate; the commission is the remainder Apple retains before net proceeds.',
+  'commission.excluded': '{count} transaction priced in a different currency from the proceeds is not included.|{count} transactions priced in a different currency from the proceeds are not included.',
+  'commission.offTier': '{count} transaction not at the 15% or 30% commission tier|{count} transactions not at the 15% or 30% commission tier',
+
+  // Report integrity
+  'integrity.allMatch': 'All {count} country totals match the summary Apple included in the report.',
+  'integrity.mismatches': '{mismatches} of {count} country totals differ from the summary Apple included in the report.',
+  'integrity.noSummary': 'No Country Of Sale summary block found; totals could not be verified against Apple\'s figures',
+  'integrity.noSummarySales': 'Sales and Trends reports include no summary block; totals could not be verified against Apple\'s figures',
+  'integrity.ok': 'OK',
+  'integrity.mismatch': 'Mismatch',
+
+  // Notices
+  'notice.tax': 'Apple acts as Merchant of Record for App Store transactions and is responsible for the collection and remittance of applicable indirect taxes (including VAT, GST, and Sales Tax). Amounts shown represent net proceeds payable to the developer, as reported by Apple.',
+  'notice.disclaimer': 'This document is a sales statement generated from Apple App Store financial reports. It is not an invoice issued by Apple Inc. This tool does not calculate taxes. Generated by AppStore Ledger (appstoreledger.dev).',
+
+  // CSV export
+  'csv.title': 'App Store Sales Report',
+  'csv.comparisonTitle': 'App Store Period Comparison',
+  'csv.vendor': 'Vendor',
+  'csv.reportType': 'Report Type',
+  'csv.generated': 'Generated',
+  'csv.baseCurrency': 'Base Currency',
+  'csv.previousPeriod': 'Previous Period',
+  'csv.currentPeriod': 'Current Period',
+  'csv.sourceReports': 'SOURCE REPORTS',
+  'csv.summaryByCurrency': 'SUMMARY BY CURRENCY',
+  'csv.exchangeRates': 'EXCHANGE RATES',
+  'csv.payout': 'PAYOUT RECONCILIATION',
+  'csv.countries': 'COUNTRY & CURRENCY BREAKDOWN',
+  'csv.products': 'PRODUCT BREAKDOWN',
+  'csv.subscriptions': 'SUBSCRIPTION BREAKDOWN',
+  'csv.commission': 'GROSS VS NET',
+  'csv.offTier': 'OFF-TIER TRANSACTIONS',
+  'csv.transactions': 'TRANSACTION DETAILS',
+  'csv.comparisonByCurrency': 'COMPARISON BY CURRENCY',
+  'csv.comparisonByCountry': 'COMPARISON BY COUNTRY',
+  'csv.comparisonByProduct': 'COMPARISON BY PRODUCT',
+  'csv.base': 'base',
+  'csv.expectedProceeds': 'Expected Proceeds',
+  'csv.withholdingTax': 'Withholding Tax',
+  'csv.adjustments': 'Adjustments',
+  'csv.expectedDeposit': 'Expected Deposit',
+  'csv.actualDeposit': 'Actual Deposit',
+  'csv.difference': 'Unexplained Difference',
+  'csv.productType': 'Product Type',
+  'csv.subscriptionStage': 'Subscription Stage',
+  'csv.offer': 'Offer',
+  'csv.excluded': 'Excluded (price and proceeds in different currencies)',
+  'csv.sale': 'Sale',
+  'csv.return': 'Return',
+  'csv.rateSource.manual': 'manual',
+  'csv.rateSource.csv': 'csv',
+  'csv.rateSource.apple': 'apple',
+};
+
+/** Key of a translatable message */
+export type MessageKey = keyof typeof en;
+
+/** A complete catalog for one locale */
+export type Messages = Record<MessageKey, string>;
+
+const de: Messages = {
+  'col.currency': 'Währung',
+  'col.currencies': 'Währungen',
+  'col.country': 'Land',
+  'col.product': 'Produkt',
+  'col.sku': 'SKU',
+  'col.units': 'Einheiten',
+  'col.netUnits': 'Netto-Einheiten',
+  'col.unitsReturned': 'Erstattete Einheiten',
+  'col.grossSales': 'Bruttoumsatz',
+  'col.returns': 'Erstattungen',
+  'col.netProceeds': 'Nettoerlös',
+  'col.netIn': 'Netto ({currency})',
+  'col.netProceedsIn': 'Nettoerlös ({currency})',
+  'col.totalIn': 'Summe ({currency})',
+  'col.total': 'Summe',
+  'col.file': 'Datei',
+  'col.period': 'Zeitraum',
+  'col.periodStart': 'Beginn',
+  'col.periodEnd': 'Ende',
+  'col.fiscalPeriod': 'Apple-Geschäftsperiode',
+  'col.expectedPayment': 'Zahlung erwartet bis',
+  'col.transactions': 'Transaktionen',
+  'col.category': 'Kategorie',
+  'col.key': 'Schlüssel',
+  'col.dimension': 'Dimension',
+  'col.breakdown': 'Aufschlüsselung',
+  'col.previous': 'Vorher',
+  'col.current': 'Aktuell',
+  'col.change': 'Veränderung',
+  'col.changePercent': 'Veränderung %',
+  'col.previousUnits': 'Einheiten vorher',
+  'col.currentUnits': 'Einheiten aktuell',
+  'col.previousProceeds': 'Erlös vorher',
+  'col.currentProceeds': 'Erlös aktuell',
+  'col.status': 'Status',
+  'col.rate': 'Kurs',
+  'col.rateTo': 'Kurs in {currency}',
+  'col.source': 'Quelle',
+  'col.rateUsed': 'Verwendeter Kurs',
+  'col.expectedIn': 'Erwartet ({currency})',
+  'col.impliedRate': 'Impliziter Kurs',
+  'col.productCurrency': 'Produkt / Währung',
+  'col.customerSpend': 'Kundenausgaben',
+  'col.estTax': 'Gesch. Steuer',
+  'col.estimatedTax': 'Geschätzte Steuer',
+  'col.commission': 'Provision',
+  'col.commissionRate': 'Provisionssatz',
+  'col.offTierTransactions': 'Transaktionen außerhalb der Stufen',
+  'col.date': 'Datum',
+  'col.type': 'Art',
+  'col.quantity': 'Menge',
+  'col.price': 'Preis',
+  'col.customerPrice': 'Kundenpreis',
+  'col.customerCurrency': 'Kundenwährung',
+  'col.partnerShare': 'Partneranteil',
+  'col.proceeds': 'Erlös',
+  'col.unitsAppleParsed': 'Einheiten (Apple / gelesen)',
+  'col.appleTotal': 'Summe Apple',
+  'col.parsedTotal': 'Summe gelesen',
+
+  'pdf.title': 'App Store Umsatzaufstellung',
+  'pdf.developer': 'Entwickler',
+  'pdf.platform': 'Plattform',
+  'pdf.platformValue': 'Apple App Store — {type}',
+  'pdf.reportingPeriod': 'Berichtszeitraum',
+  'pdf.generated': 'Erstellt am',
+  'pdf.vatId': 'USt-IdNr.: {id}',
+  'pdf.page': 'Seite {page} von {pages}',
+  'period.range': '{start} bis {end}',
+  'reportType.financial': 'Finanzbericht',
+  'reportType.sales': 'Verkäufe und Trends',
+
+  'section.summary': 'Übersicht',
+  'section.sourceReports': 'Quellberichte',
+  'section.comparison': 'Periodenvergleich',
+  'section.payout': 'Abstimmung der Auszahlung',
+  'section.countries': 'Aufschlüsselung nach Land und Währung',
+  'section.products': 'Aufschlüsselung nach Produkt',
+  'section.subscriptions': 'Aufschlüsselung der Abonnements',
+  'section.commission': 'Brutto- und Nettoerlöse',
+  'section.integrity': 'Berichtsprüfung',
+  'section.taxNotice': 'Hinweis zur Steuerbehandlung',
+  'section.transactions': 'Anhang: Einzeltransaktionen',
+  'transactions.subtotal': 'Zwischensumme {currency}',
+  'section.charts': 'Umsatzentwicklung',
+  'charts.timelineDay': 'Nettoerlöse pro Tag',
+  'charts.timelineWeek': 'Nettoerlöse pro Woche',
+  'charts.countries': 'Anteil am Erlös nach Land',
+  'charts.products': 'Top-Produkte',
+  'charts.unitsVsProceeds': 'Einheiten und Erlöse nach Produkttyp',
+  'charts.other': 'Sonstige',
+  'charts.currency': 'Beträge in {currency}',
+  'charts.excluded': '{count} Transaktion in einer anderen Währung ohne Wechselkurs ist nicht enthalten.|{count} Transaktionen in anderen Währungen ohne Wechselkurs sind nicht enthalten.',
+
+  'count.currencies': '{count} Währung|{count} Währungen',
+  'count.transactions': '{count} Transaktion|{count} Transaktionen',
+  'count.returns': '{count} Erstattung|{count} Erstattungen',
+  'summary.missingRates': 'Kein Wechselkurs für {currencies}; nicht in den Summen in {base} enthalten.',
+
+  'comparison.intro': '{current} im Vergleich zu {previous}',
+  'comparison.byCurrency': 'Nach Währung',
+  'comparison.byCountry': 'Nach Land',
+  'comparison.byProduct': 'Nach Produkt',
+  'comparison.newCountries': 'Neue Länder',
+  'comparison.removedCountries': 'Länder ohne Verkäufe in diesem Zeitraum',
+  'comparison.newProducts': 'Neue Produkte',
+  'comparison.removedProducts': 'Produkte ohne Verkäufe in diesem Zeitraum',
+  'status.new': 'Neu',
+  'status.gone': 'Entfallen',
+
+  'payout.depositIntro': 'Die Nettoerlöse werden unten mit der von Apple erhaltenen Zahlung über {deposit} abgestimmt. Implizite Kurse sind die von Apple tatsächlich angewandten Kurse, abgeleitet aus der Zahlung; eine dadurch nicht erklärte Differenz wird gesondert ausgewiesen.',
+  'payout.convertedIntro': 'Die Nettoerlöse fielen in mehreren Währungen an und wurden mit den unten aufgeführten Wechselkursen in {base} umgerechnet. Diese Kurse wurden für diese Aufstellung angegeben und können von den internen Kursen abweichen, die Apple für die Sammelauszahlung verwendet.',
+  'payout.defaultIntro': 'Die Nettoerlöse fielen in mehreren Währungen an. Apple rechnet alle Erlöse zu internen Wechselkursen um und überweist eine einzige Sammelauszahlung auf das Bankkonto des Entwicklers. Die von Apple verwendeten Wechselkurse sind in diesem Bericht nicht angegeben.',
+  'payout.notProvided': 'Nicht angegeben',
+  'payout.baseCurrency': 'Basiswährung',
+  'payout.expectedProceeds': 'Erwartete Erlöse',
+  'payout.withholdingTax': 'Quellensteuer',
+  'payout.adjustments': 'Anpassungen',
+  'payout.expectedDeposit': 'Erwartete Zahlung',
+  'payout.actualDeposit': 'Tatsächliche Zahlung',
+  'payout.difference': 'Ungeklärte Differenz',
+  'payout.differenceUnknown': 'Nicht bestimmbar (Kurse für mehrere Währungen fehlen)',
+  'rateSource.manual': 'Manuell eingegeben',
+  'rateSource.csv': 'CSV-Import',
+  'rateSource.apple': 'Apple-Zahlungsübersicht',
+
+  'products.units': '{count} Einheit|{count} Einheiten',
+  'products.returned': ', {count} erstattet',
+  'subscriptions.byProductType': 'Nach Produktart',
+  'subscriptions.byRenewal': 'Automatisch verlängerbare Abonnements: neu und verlängert',
+  'subscriptions.byOffer': 'Nach Angebot / Aktionscode',
+  'subscriptions.noOffer': 'Kein Angebot',
+  'subscriptions.unknownType': 'Unbekannt',
+  'renewal.new': 'Neues Abonnement',
+  'renewal.renewal': 'Verlängerung (erstes Jahr)',
+  'renewal.after-one-year': 'Verlängerung (nach einem Jahr)',
+  'renewal.unknown': 'Nicht angegeben',
+  'productType.1': 'Kostenpflichtige App',
+  'productType.1F': 'Kostenlose App',
+  'productType.1T': 'Kostenpflichtige App (iPad)',
+  'productType.1E': 'Kostenpflichtige App (individuell)',
+  'productType.1EP': 'Kostenpflichtige App (individuell, Mac)',
+  'productType.1EU': 'Kostenpflichtige App (individuell, universell)',
+  'productType.F1': 'Kostenpflichtige App (Mac)',
+  'productType.FI1': 'In-App-Kauf (Mac)',
+  'productType.IA1': 'In-App-Kauf',
+  'productType.IA1-M': 'In-App-Kauf (Mac)',
+  'productType.IA9': 'Nicht verlängerbares Abonnement',
+  'productType.IA9-M': 'Nicht verlängerbares Abonnement (Mac)',
+  'productType.IAY': 'Automatisch verlängerbares Abonnement',
+  'productType.IAY-M': 'Automatisch verlängerbares Abonnement (Mac)',
+  'productType.IAC': 'Kostenloses Abonnement',
+  'productType.IAC-M': 'Kostenloses Abonnement (Mac)',
+
+  'commission.intro': 'Kundenausgaben sind der von Kunden gezahlte Preis. Die Steuer ist aus dem Standardsatz für USt./GST des jeweiligen Storefronts geschätzt; die Provision ist der Rest, den Apple vor den Nettoerlösen einbehält.',
+  'commission.excluded': '{count} Transaktion in einer anderen Währung als der Erlöswährung ist nicht enthalten.|{count} Transaktionen in einer anderen Währung als der Erlöswährung sind nicht enthalten.',
+  'commission.offTier': '{count} Transaktion nicht zum Provisionssatz von 15 % oder 30 %|{count} Transaktionen nicht zum Provisionssatz von 15 % oder 30 %',
+
+  'integrity.allMatch': 'Alle {count} Ländersummen stimmen mit der Übersicht im Bericht von Apple überein.',
+  'integrity.mismatches': '{mismatches} von {count} Ländersummen weichen von der Übersicht im Bericht von Apple ab.',
+  'integrity.noSummary': 'Keine Übersicht nach Verkaufsland gefunden; die Summen konnten nicht mit den Zahlen von Apple abgeglichen werden',
+  'integrity.noSummarySales': 'Berichte zu Verkäufen und Trends enthalten keine Übersicht; die Summen konnten nicht mit den Zahlen von Apple abgeglichen werden',
+  'integrity.ok': 'OK',
+  'integrity.mismatch': 'Abweichung',
+
+  'notice.tax': 'Apple tritt bei App-Store-Transaktionen als Verkäufer (Merchant of Record) auf und ist für die Erhebung und Abführung der anfallenden indirekten Steuern (einschließlich USt., GST und Sales Tax) verantwortlich. Die ausgewiesenen Beträge sind die an den Entwickler zahlbaren Nettoerlöse laut Apple.',
+  'notice.disclaimer': 'Dieses Dokument ist eine aus den Finanzberichten des Apple App Store erstellte Umsatzaufstellung. Es ist keine Rechnung von Apple Inc. Dieses Tool berechnet keine Steuern. Erstellt mit AppStore Ledger (appstoreledger.dev).',
+
+  'csv.title': 'App Store Umsatzbericht',
+  'csv.comparisonTitle': 'App Store Periodenvergleich',
+  'csv.vendor': 'Anbieter',
+  'csv.reportType': 'Berichtsart',
+  'csv.generated': 'Erstellt am',
+  'csv.baseCurrency': 'Basiswährung',
+  'csv.previousPeriod': 'Vorheriger Zeitraum',
+  'csv.currentPeriod': 'Aktueller Zeitraum',
+  'csv.sourceReports': 'QUELLBERICHTE',
+  'csv.summaryByCurrency': 'ÜBERSICHT NACH WÄHRUNG',
+  'csv.exchangeRates': 'WECHSELKURSE',
+  'csv.payout': 'ABSTIMMUNG DER AUSZAHLUNG',
+  'csv.countries': 'AUFSCHLÜSSELUNG NACH LAND UND WÄHRUNG',
+  'csv.products': 'AUFSCHLÜSSELUNG NACH PRODUKT',
+  'csv.subscriptions': 'AUFSCHLÜSSELUNG DER ABONNEMENTS',
+  'csv.commission': 'BRUTTO UND NETTO',
+  'csv.offTier': 'TRANSAKTIONEN AUSSERHALB DER STUFEN',
+  'csv.transactions': 'TRANSAKTIONSDETAILS',
+  'csv.comparisonByCurrency': 'VERGLEICH NACH WÄHRUNG',
+  'csv.comparisonByCountry': 'VERGLEICH NACH LAND',
+  'csv.comparisonByProduct': 'VERGLEICH NACH PRODUKT',
+  'csv.base': 'Basis',
+  'csv.expectedProceeds': 'Erwartete Erlöse',
+  'csv.withholdingTax': 'Quellensteuer',
+  'csv.adjustments': 'Anpassungen',
+  'csv.expectedDeposit': 'Erwartete Zahlung',
+  'csv.actualDeposit': 'Tatsächliche Zahlung',
+  'csv.difference': 'Ungeklärte Differenz',
+  'csv.productType': 'Produktart',
+  'csv.subscriptionStage': 'Abonnementphase',
+  'csv.offer': 'Angebot',
+  'csv.excluded': 'Nicht enthalten (Preis und Erlös in unterschiedlichen Währungen)',
+  'csv.sale': 'Verkauf',
+  'csv.return': 'Erstattung',
+  'csv.rateSource.manual': 'manuell',
+  'csv.rateSource.csv': 'csv',
+  'csv.rateSource.apple': 'apple',
+};
+
+const ja: Messages = {
+  'col.currency': '通貨',
+  'col.currencies': '通貨',
+  'col.country': '国',
+  'col.product': '製品',
+  'col.sku': 'SKU',
+  'col.units': '数量',
+  'col.netUnits': '純数量',
+  'col.unitsReturned': '返金数量',
+  'col.grossSales': '総売上',
+  'col.returns': '返金',
+  'col.netProceeds': '純収益',
+  'col.netIn': '純額（{currency}）',
+  'col.netProceedsIn': '純収益（{currency}）',
+  'col.totalIn': '合計（{currency}）',
+  'col.total': '合計',
+  'col.file': 'ファイル',
+  'col.period': '期間',
+  'col.periodStart': '開始日',
+  'col.periodEnd': '終了日',
+  'col.fiscalPeriod': 'Apple 会計期間',
+  'col.expectedPayment': '支払予定日',
+  'col.transactions': '取引数',
+  'col.category': 'カテゴリ',
+  'col.key': 'キー',
+  'col.dimension': '区分',
+  'col.breakdown': '内訳',
+  'col.previous': '前期',
+  'col.current': '当期',
+  'col.change': '増減',
+  'col.changePercent': '増減率 %',
+  'col.previousUnits': '前期数量',
+  'col.currentUnits': '当期数量',
+  'col.previousProceeds': '前期収益',
+  'col.currentProceeds': '当期収益',
+  'col.status': '状態',
+  'col.rate': 'レート',
+  'col.rateTo': '{currency} へのレート',
+  'col.source': '出典',
+  'col.rateUsed': '適用レート',
+  'col.expectedIn': '見込額（{currency}）',
+  'col.impliedRate': '実効レート',
+  'col.productCurrency': '製品 / 通貨',
+  'col.customerSpend': '顧客支払額',
+  'col.estTax': '推定税額',
+  'col.estimatedTax': '推定税額',
+  'col.commission': '手数料',
+  'col.commissionRate': '手数料率',
+  'col.offTierTransactions': '対象外の取引',
+  'col.date': '日付',
+  'col.type': '種別',
+  'col.quantity': '数量',
+  'col.price': '価格',
+  'col.customerPrice': '顧客価格',
+  'col.customerCurrency': '顧客通貨',
+  'col.partnerShare': 'パートナー取り分',
+  'col.proceeds': '収益',
+  'col.unitsAppleParsed': '数量（Apple / 読み取り）',
+  'col.appleTotal': 'Apple 合計',
+  'col.parsedTotal': '読み取り合計',
+
+  'pdf.title': 'App Store 売上明細書',
+  'pdf.developer': 'デベロッパ',
+  'pdf.platform': 'プラットフォーム',
+  'pdf.platformValue': 'Apple App Store — {type}',
+  'pdf.reportingPeriod': '対象期間',
+  'pdf.generated': '作成日',
+  'pdf.vatId': '登録番号: {id}',
+  'pdf.page': '{page} / {pages} ページ',
+  'period.range': '{start} 〜 {end}',
+  'reportType.financial': '財務レポート',
+  'reportType.sales': '売上とトレンド',
+
+  'section.summary': '概要',
+  'section.sourceReports': '元レポート',
+  'section.comparison': '期間比較',
+  'section.payout': '入金の照合',
+  'section.countries': '国・通貨別の内訳',
+  'section.products': '製品別の内訳',
+  'section.subscriptions': 'サブスクリプションの内訳',
+  'section.commission': '総額と純額',
+  'section.integrity': 'レポートの整合性',
+  'section.taxNotice': '税金の取り扱いについて',
+  'section.transactions': '付録: 取引明細',
+  'transactions.subtotal': '小計 ({currency})',
+  'section.charts': '売上推移',
+  'charts.timelineDay': '日別の純収益',
+  'charts.timelineWeek': '週別の純収益',
+  'charts.countries': '国別の収益シェア',
+  'charts.products': '上位の製品',
+  'charts.unitsVsProceeds': '製品タイプ別の数量と収益',
+  'charts.other': 'その他',
+  'charts.currency': '金額の通貨: {currency}',
+  'charts.excluded': '為替レートのない他通貨の取引 {count} 件は含まれていません。',
+
+  'count.currencies': '{count} 通貨',
+  'count.transactions': '{count} 件の取引',
+  'count.returns': '{count} 件の返金',
+  'summary.missingRates': '{currencies} の為替レートがないため、{base} の合計から除外しています。',
+
+  'comparison.intro': '{current}（比較対象: {previous}）',
+  'comparison.byCurrency': '通貨別',
+  'comparison.byCountry': '国別',
+  'comparison.byProduct': '製品別',
+  'comparison.newCountries': '新しい国',
+  'comparison.removedCountries': '当期に売上のない国',
+  'comparison.newProducts': '新しい製品',
+  'comparison.removedProducts': '当期に売上のない製品',
+  'status.new': '新規',
+  'status.gone': '終了',
+
+  'payout.depositIntro': '純収益を Apple からの入金額 {deposit} と照合しています。実効レートは入金額から算出した Apple の適用レートで、それで説明できない差額は別途表示しています。',
+  'payout.convertedIntro': '純収益は複数の通貨で発生しており、以下の為替レートで {base} に換算しています。これらのレートはこの明細書のために指定されたもので、Apple が一括入金に適用する内部レートとは異なる場合があります。',
+  'payout.defaultIntro': '純収益は複数の通貨で発生しています。Apple はすべての収益を内部の為替レートで換算し、デベロッパの銀行口座へ一括で入金します。Apple が使用した為替レートはこのレポートには記載されていません。',
+  'payout.notProvided': '未指定',
+  'payout.baseCurrency': '基準通貨',
+  'payout.expectedProceeds': '見込収益',
+  'payout.withholdingTax': '源泉徴収税',
+  'payout.adjustments': '調整',
+  'payout.expectedDeposit': '見込入金額',
+  'payout.actualDeposit': '実際の入金額',
+  'payout.difference': '説明できない差額',
+  'payout.differenceUnknown': '算出不可（複数の通貨のレートがありません）',
+  'rateSource.manual': '手動入力',
+  'rateSource.csv': 'CSV から読み込み',
+  'rateSource.apple': 'Apple 支払いサマリー',
+
+  'products.units': '{count} 個',
+  'products.returned': '、{count} 個返金',
+  'subscriptions.byProductType': '製品タイプ別',
+  'subscriptions.byRenewal': '自動更新サブスクリプション: 新規と更新',
+  'subscriptions.byOffer': 'オファー / プロモーションコード別',
+  'subscriptions.noOffer': 'オファーなし',
+  'subscriptions.unknownType': '不明',
+  'renewal.new': '新規サブスクリプション',
+  'renewal.renewal': '更新（1 年目）',
+  'renewal.after-one-year': '更新（1 年経過後）',
+  'renewal.unknown': '指定なし',
+  'productType.1': '有料 App',
+  'productType.1F': '無料 App',
+  'productType.1T': '有料 App（iPad）',
+  'productType.1E': '有料 App（カスタム）',
+  'productType.1EP': '有料 App（カスタム、Mac）',
+  'productType.1EU': '有料 App（カスタム、ユニバーサル）',
+  'productType.F1': '有料 App（Mac）',
+  'productType.FI1': 'App 内課金（Mac）',
+  'productType.IA1': 'App 内課金',
+  'productType.IA1-M': 'App 内課金（Mac）',
+  'productType.IA9': '非更新サブスクリプション',
+  'productType.IA9-M': '非更新サブスクリプション（Mac）',
+  'productType.IAY': '自動更新サブスクリプション',
+  'productType.IAY-M': '自動更新サブスクリプション（Mac）',
+  'productType.IAC': '無料サブスクリプション',
+  'productType.IAC-M': '無料サブスクリプション（Mac）',
+
+  'commission.intro': '顧客支払額は顧客が支払った価格です。税額は各ストアの標準的な VAT/GST 税率から推定しており、手数料は純収益の前に Apple が差し引く残りの額です。',
+  'commission.excluded': '収益と異なる通貨で価格設定された {count} 件の取引は含まれていません。',
+  'commission.offTier': '手数料率 15% または 30% 以外の取引 {count} 件',
+
+  'integrity.allMatch': '{count} 件の国別合計はすべて、Apple のレポートに含まれるサマリーと一致しています。',
+  'integrity.mismatches': '{count} 件中 {mismatches} 件の国別合計が、Apple のレポートに含まれるサマリーと一致しません。',
+  'integrity.noSummary': '販売国別のサマリーが見つからないため、合計を Apple の数値と照合できませんでした',
+  'integrity.noSummarySales': '売上とトレンドのレポートにはサマリーがないため、合計を Apple の数値と照合できませんでした',
+  'integrity.ok': 'OK',
+  'integrity.mismatch': '不一致',
+
+  'notice.tax': 'Apple は App Store の取引における販売者（Merchant of Record）として、該当する間接税（VAT、GST、売上税を含む）の徴収と納付に責任を負います。記載の金額は、Apple の報告に基づくデベロッパへの支払対象の純収益です。',
+  'notice.disclaimer': 'この書類は Apple App Store の財務レポートから作成した売上明細書であり、Apple Inc. が発行する請求書ではありません。このツールは税額を計算しません。AppStore Ledger（appstoreledger.dev）で作成。',
+
+  'csv.title': 'App Store 売上レポート',
+  'csv.comparisonTitle': 'App Store 期間比較',
+  'csv.vendor': 'ベンダー',
+  'csv.reportType': 'レポートの種類',
+  'csv.generated': '作成日',
+  'csv.baseCurrency': '基準通貨',
+  'csv.previousPeriod': '前期',
+  'csv.currentPeriod': '当期',
+  'csv.sourceReports': '元レポート',
+  'csv.summaryByCurrency': '通貨別の概要',
+  'csv.exchangeRates': '為替レート',
+  'csv.payout': '入金の照合',
+  'csv.countries': '国・通貨別の内訳',
+  'csv.products': '製品別の内訳',
+  'csv.subscriptions': 'サブスクリプションの内訳',
+  'csv.commission': '総額と純額',
+  'csv.offTier': '対象外の取引',
+  'csv.transactions': '取引の明細',
+  'csv.comparisonByCurrency': '通貨別の比較',
+  'csv.comparisonByCountry': '国別の比較',
+  'csv.comparisonByProduct': '製品別の比較',
+  'csv.base': '基準',
+  'csv.expectedProceeds': '見込収益',
+  'csv.withholdingTax': '源泉徴収税',
+  'csv.adjustments': '調整',
+  'csv.expectedDeposit': '見込入金額',
+  'csv.actualDeposit': '実際の入金額',
+  'csv.difference': '説明できない差額',
+  'csv.productType': '製品タイプ',
+  'csv.subscriptionStage': 'サブスクリプションの段階',
+  'csv.offer': 'オファー',
+  'csv.excluded': '対象外（価格と収益の通貨が異なる）',
+  'csv.sale': '販売',
+  'csv.return': '返金',
+  'csv.rateSource.manual': '手動',
+  'csv.rateSource.csv': 'csv',
+  'csv.rateSource.apple': 'apple',
+};
+
+/** Catalogs for every supported locale */
+export const MESSAGES: Record<Locale, Messages> = { en, de, ja };
+
+/** Look up and fill in a message */
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/**
+ * Whether a string is a message key, for labels looked up by data values
+ * such as product type identifiers
+ */
+export function isMessageKey(key: string): key is MessageKey {
+  return Object.hasOwn(en, key);
+}
+
+/**
+ * Translator for a locale
+ */
+export function createTranslator(locale: Locale = 'en'): Translate {
+  const messages = MESSAGES[locale];
+  const plurals = new Intl.PluralRules(INTL_LOCALES[locale]);
+
+  return (key, params = {}) => {
+    let message = messages[key];
+    if (message.includes('|')) {
+      const [one, other] = message.split('|');
+      message = typeof params.count === 'number' && plurals.select(params.count) === 'one' ? one : other;
+    }
+    return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    );
+  };
+}
+
+/**
+ * BCP 47 tag for a locale, for use with Intl formatters
+ */
+export function getIntlLocale(locale: Locale = 'en'): string {
+  return INTL_LOCALES[locale];
+}
+
+/**
+ * Format an Apple (MM/DD/YYYY) or ISO date in the locale's short style,
+ * e.g. 12/27/2025, 27.12.2025 or 2025/12/27
+ */
+export function formatLocalDate(dateStr: string, locale: Locale = 'en'): string {
+  const match = dateStr.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/) ?? dateStr.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
+    return dateStr;
+  }
+
+  const [year, month, day] = dateStr.includes('/')
+    ? [+match[3], +match[1], +match[2]]
+    : [+match[1], +match[2], +match[3]];
+  return new Intl.DateTimeFormat(INTL_LOCALES[locale], {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    timeZone: 'UTC',
+  }).format(new Date(Date.UTC(year, month - 1, day)));
+}
+
+/**
+ * Format a plain number with the locale's separators
+ */
+export function formatLocalNumber(
+  value: number,
+  locale: Locale = 'en',
+  options: Intl.NumberFormatOptions = {}
+): string {
+  return new Intl.NumberFormat(INTL_LOCALES[locale], options).format(value);
+}
@@ -0,0 +1,129 @@
+/**
+ * AppStore Ledger
+ * Public entry point of the library: parsing, aggregation and exporters.
+ * Every function here is free of DOM access; generators return strings or
+ * bytes. Browser download helpers live in `./browser`.
+ */
+
+export type * from './types';
+
+export {
+  parseAppleReport,
+  createReportParser,
+  validateReport,
+  detectDelimiter,
+  buildSummary,
+  aggregateProductsByCurrency,
+  isReturn,
+  fingerprintContent,
+  formatCurrency,
+  formatDate,
+  REPORT_TYPE_LABELS,
+  type ReportParser,
+} from './parser';
+export {
+  getCurrencyPrecision,
+  parseMoney,
+  toMajor,
+  fromMajor,
+  scaleMoney,
+  convertMoney,
+  formatAmount,
+} from './money';
+export { mergeReports, splitByPeriod } from './report-merger';
+export {
+  getFiscalPeriods,
+  getFiscalPeriod,
+  getFiscalLabel,
+  getExpectedPaymentDate,
+  formatFiscalYear,
+  formatFiscalPeriod,
+  groupByFiscalPeriod,
+  prorateToCalendarMonths,
+  type FiscalGrouping,
+} from './fiscal-calendar';
+export { extractReportFiles, detectFileFormat, type FileFormat } from './report-files';
+export { loadReportFiles } from './report-stream';
+export { checkReportIntegrity } from './report-integrity';
+export { convertReport, importRates, getRate, formatRate, type ImportedRates } from './currency-converter';
+export { reconcilePayout } from './payout-reconciliation';
+export {
+  analyzeSubscriptions,
+  getRenewalStage,
+  isAutoRenewable,
+  translateSubscriptionLabel,
+  PRODUCT_TYPE_LABELS,
+  RENEWAL_STAGE_LABELS,
+} from './subscription-analytics';
+export { analyzeCommission, analyzeTransaction, STOREFRONT_TAX_RATES } from './commission-analysis';
+export { comparePeriods } from './period-comparison';
+export { analyzeTrends, type TrendOptions } from './revenue-trends';
+export {
+  renderTimelineSVG,
+  renderShareSVG,
+  renderUnitsVsProceedsSVG,
+  formatCompactAmount,
+  CHART_COLORS,
+  type ChartOptions,
+} from './trend-charts';
+export {
+  generatePDF,
+  generatePDFBytes,
+  getPDFFilename,
+  needsUnicodeFont,
+  PDF_SECTIONS,
+  DEFAULT_PDF_SECTIONS,
+  PDF_SECTION_LABELS,
+  type PDFOptions,
+  type PDFFont,
+  type PDFLogo,
+  type PDFPageSize,
+  type PDFSection,
+} from './pdf-generator';
+export {
+  generateCSV,
+  generateTransactionsCSV,
+  generateSummaryCSVs,
+  generateCSVExport,
+  generateComparisonCSV,
+  zipCSVFiles,
+  getCSVFilename,
+  getCSVArchiveFilename,
+  getComparisonFilename,
+  type CSVOptions,
+  type CSVExportOptions,
+  type CSVDelimiter,
+  type CSVProfile,
+  type CSVFile,
+} from './csv-exporter';
+export { generateXLSX, getXLSXFilename, type XLSXOptions } from './xlsx-exporter';
+export {
+  buildJournal,
+  generateJournal,
+  getJournalFilename,
+  DEFAULT_ACCOUNTS,
+  JOURNAL_FORMAT_LABELS,
+  type JournalFormat,
+  type JournalTracking,
+  type JournalOptions,
+} from './journal-exporter';
+export {
+  createTranslator,
+  isMessageKey,
+  getIntlLocale,
+  formatLocalDate,
+  formatLocalNumber,
+  LOCALE_LABELS,
+  MESSAGES,
+  type Locale,
+  type MessageKey,
+  type Messages,
+  type Translate,
+} from './i18n';
+export {
+  writeXLSX,
+  type XLSXSheet,
+  type XLSXColumn,
+  type XLSXCell,
+  type XLSXNumber,
+} from './xlsx-writer';
@@ -0,0 +1,290 @@
+/**
+ * Journal Exporter
+ * Turns a statement into balanced journal entries (debit the Apple
+ * receivable, credit sales revenue, optionally book the commission as an
+ * expense) and writes them for Xero, QuickBooks or plain-text ledgers
+ */
+
+import type {
+  ParsedReport,
+  ExchangeRates,
+  AccountMapping,
+  JournalEntry,
+  JournalLine,
+  MinorUnits,
+} from './types';
+import { formatDate } from './parser';
+import { analyzeTransaction } from './commission-analysis';
+import { getRate } from './currency-converter';
+import { convertMoney, formatAmount } from './money';
+import { escapeCSV } from './csv-exporter';
+
+/** Supported journal file formats */
+export type JournalFormat = 'xero' | 'quickbooks-iif' | 'quickbooks-csv' | 'ledger' | 'hledger' | 'beancount';
+
+/** Tracking category revenue lines are split by */
+export type JournalTracking = 'none' | 'country' | 'product';
+
+/** Journal generation options */
+export interface JournalOptions {
+  /** Overrides for the default account names */
+  accounts?: Partial<AccountMapping>;
+  /** Book Apple's commission as an expense instead of netting it off revenue */
+  includeCommission?: boolean;
+  /** Split revenue (and commission) lines by country or product */
+  tracking?: JournalTracking;
+  /** Rates for formats that hold one currency per ledger (Xero, QuickBooks);
+   *  entries in currencies without a rate are left unconverted */
+  exchangeRates?: ExchangeRates;
+}
+
+/** Default accounts, valid names in ledger, hledger and beancount */
+export const DEFAULT_ACCOUNTS: AccountMapping = {
+  receivable: 'Assets:Receivables:Apple',
+  revenue: 'Income:AppStore:Sales',
+  commission: 'Expenses:AppStore:Commission',
+  taxRate: 'Tax Exempt',
+};
+
+/** Human-readable labels for journal formats */
+export const JOURNAL_FORMAT_LABELS: Record<JournalFormat, string> = {
+  xero: 'Xero manual journal (CSV)',
+  'quickbooks-iif': 'QuickBooks Desktop (IIF)',
+  'quickbooks-csv': 'QuickBooks Online journal (CSV)',
+  ledger: 'Ledger',
+  hledger: 'hledger',
+  beancount: 'Beancount',
+};
+
+const FILE_EXTENSIONS: Record<JournalFormat, string> = {
+  xero: 'csv',
+  'quickbooks-iif': 'iif',
+  'quickbooks-csv': 'csv',
+  ledger: 'ledger',
+  hledger: 'journal',
+  beancount: 'beancount',
+};
+
+const TRACKING_NAMES: Record<Exclude<JournalTracking, 'none'>, string> = {
+  country: 'Country',
+  product: 'Product',
+};
+
+/**
+ * Build one balanced journal entry per proceeds currency
+ */
+export function buildJournal(report: ParsedReport, options: JournalOptions = {}): JournalEntry[] {
+  const accounts = { ...DEFAULT_ACCOUNTS, ...options.accounts };
+  const tracking = options.tracking ?? 'none';
+  const period = `${formatDate(report.metadata.startDate)} to ${formatDate(report.metadata.endDate)}`;
+  const date = formatDate(report.metadata.endDate);
+
+  // currency → tracking option → totals
+  const groups = new Map<string, Map<string, { proceeds: MinorUnits; commission: MinorUnits }>>();
+  for (const t of report.transactions) {
+    const option = tracking === 'country' ? t.countryOfSale : tracking === 'product' ? t.title || t.sku : '';
+    const byOption = groups.get(t.partnerShareCurrency) ?? new Map();
+    const totals = byOption.get(option) ?? { proceeds: 0, commission: 0 };
+    totals.proceeds += t.extendedPartnerShare;
+    if (options.includeCommission) {
+      totals.commission += analyzeTransaction(t).commission ?? 0;
+    }
+    byOption.set(option, totals);
+    groups.set(t.partnerShareCurrency, byOption);
+  }
+
+  return [...groups.keys()].sort().map((currency) => {
+    const lines: JournalLine[] = [];
+    let net = 0;
+
+    for (const [option, totals] of [...groups.get(currency)!].sort(([a], [b]) => a.localeCompare(b))) {
+      const trackingCategory = tracking === 'none' ? undefined : { name: TRACKING_NAMES[tracking], option };
+      const suffix = option ? ` - ${option}` : '';
+      net += totals.proceeds;
+
+      if (totals.commission !== 0) {
+        lines.push({
+          account: accounts.commission,
+          amount: totals.commission,
+          currency,
+          description: `App Store commission${suffix}`,
+          tracking: trackingCategory,
+        });
+      }
+      lines.push({
+        account: accounts.revenue,
+        amount: -(totals.proceeds + totals.commission),
+        currency,
+        description: `App Store sales${suffix}`,
+        tracking: trackingCategory,
+      });
+    }
+
+    lines.unshift({
+      account: accounts.receivable,
+      amount: net,
+      currency,
+      description: `Apple proceeds ${currency}`,
+    });
+
+    return {
+      date,
+      reference: `AppStore-${date}-${currency}`,
+      description: `App Store proceeds ${currency}, ${period}`,
+      currency,
+      lines: lines.filter((l) => l.amount !== 0 || l.account === accounts.receivable),
+    };
+  });
+}
+
+/**
+ * Convert an entry into the base currency when a rate is known. Lines are
+ * converted one by one and the receivable takes the rounding difference,
+ * so the entry stays balanced.
+ */
+function convertEntry(entry: JournalEntry, rates: ExchangeRates | undefined): JournalEntry {
+  const rate = rates ? getRate(rates, entry.currency) : null;
+  if (!rates || rate === null || entry.currency === rates.baseCurrency) {
+    return entry;
+  }
+
+  const base = rates.baseCurrency;
+  const [receivable, ...rest] = entry.lines;
+  const converted = rest.map((l) => ({ ...l, amount: convertMoney(l.amount, l.currency, rate, base), currency: base }));
+  const balance = converted.reduce((sum, l) => sum + l.amount, 0);
+
+  return {
+    ...entry,
+    description: `${entry.description} at ${rate} ${base}/${entry.currency}`,
+    currency: base,
+    lines: [{ ...receivable, amount: -balance, currency: base }, ...converted],
+  };
+}
+
+/**
+ * Apple-style MM/DD/YYYY date from an ISO date
+ */
+function toUSDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-');
+  return `${month}/${day}/${year}`;
+}
+
+function generateXero(entries: JournalEntry[], accounts: AccountMapping): string {
+  const lines = ['*Narration,*Date,Description,*AccountCode,*TaxRate,*Amount,TrackingName1,TrackingOption1'];
+  for (const entry of entries) {
+    for (const l of entry.lines) {
+      lines.push(
+        [entry.description, entry.date, l.description, l.account, accounts.taxRate, formatAmount(l.amount, l.currency), l.tracking?.name ?? '', l.tracking?.option ?? '']
+          .map((cell) => escapeCSV(cell))
+          .join(',')
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+function generateQuickBooksIIF(entries: JournalEntry[]): string {
+  const clean = (value: string) => value.replace(/[\t\r\n]/g, ' ');
+  const lines = [
+    '!TRNS\tTRNSTYPE\tDATE\tACCNT\tCLASS\tAMOUNT\tDOCNUM\tMEMO',
+    '!SPL\tTRNSTYPE\tDATE\tACCNT\tCLASS\tAMOUNT\tDOCNUM\tMEMO',
+    '!ENDTRNS',
+  ];
+  for (const entry of entries) {
+    entry.lines.forEach((l, i) => {
+      lines.push(
+        [i === 0 ? 'TRNS' : 'SPL', 'GENERAL JOURNAL', toUSDate(entry.date), clean(l.account), clean(l.tracking?.option ?? ''), formatAmount(l.amount, l.currency), entry.reference, clean(`${entry.description}: ${l.description}`)].join('\t')
+      );
+    });
+    lines.push('ENDTRNS');
+  }
+  return lines.join('\r\n');
+}
+
+function generateQuickBooksCSV(entries: JournalEntry[]): string {
+  const lines = ['Journal No,Journal Date,Currency,Account,Debits,Credits,Description,Class'];
+  for (const entry of entries) {
+    for (const l of entry.lines) {
+      const amount = formatAmount(Math.abs(l.amount), l.currency);
+      lines.push(
+        [entry.reference, entry.date, l.currency, l.account, l.amount >= 0 ? amount : '', l.amount < 0 ? amount : '', l.description, l.tracking?.option ?? '']
+          .map((cell) => escapeCSV(cell))
+          .join(',')
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Ledger and hledger journals; they differ only in date and tag style
+ */
+function generateLedger(entries: JournalEntry[], flavor: 'ledger' | 'hledger'): string {
+  return entries
+    .map((entry) => {
+      const date = flavor === 'ledger' ? entry.date.replace(/-/g, '/') : entry.date;
+      const postings = entry.lines.map((l) => {
+        const amount = `${formatAmount(l.amount, l.currency)} ${l.currency}`;
+        const tag = l.tracking
+          ? `  ; ${flavor === 'ledger' ? l.tracking.name : l.tracking.name.toLowerCase()}: ${l.tracking.option}`
+          : '';
+        return `    ${l.account.padEnd(40)}  ${amount.padStart(16)}${tag}`;
+      });
+      return [`${date} * (${entry.reference}) ${entry.description}`, ...postings].join('\n');
+    })
+    .join('\n\n') + '\n';
+}
+
+function generateBeancount(entries: JournalEntry[]): string {
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  return entries
+    .map((entry) => {
+      const postings = entry.lines.flatMap((l) => {
+        const posting = `  ${l.account.padEnd(40)}  ${formatAmount(l.amount, l.currency).padStart(12)} ${l.currency}`;
+        return l.tracking
+          ? [posting, `    ${l.tracking.name.toLowerCase()}: ${quote(l.tracking.option)}`]
+          : [posting];
+      });
+      return [
+        `${entry.date} * "Apple" ${quote(entry.description)}`,
+        `  reference: ${quote(entry.reference)}`,
+        ...postings,
+      ].join('\n');
+    })
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Generate a journal file for a statement
+ */
+export function generateJournal(
+  report: ParsedReport,
+  format: JournalFormat,
+  options: JournalOptions = {}
+): string {
+  const accounts = { ...DEFAULT_ACCOUNTS, ...options.accounts };
+  const entries = buildJournal(report, options);
+
+  switch (format) {
+    case 'xero':
+      return generateXero(entries.map((e) => convertEntry(e, options.exchangeRates)), accounts);
+    case 'quickbooks-iif':
+      return generateQuickBooksIIF(entries.map((e) => convertEntry(e, options.exchangeRates)));
+    case 'quickbooks-csv':
+      return generateQuickBooksCSV(entries.map((e) => convertEntry(e, options.exchangeRates)));
+    case 'ledger':
+    case 'hledger':
+      return generateLedger(entries, format);
+    case 'beancount':
+      return generateBeancount(entries);
+  }
+}
+
+/**
+ * File name for a statement's journal export
+ */
+export function getJournalFilename(report: ParsedReport, format: JournalFormat): string {
+  const periodStart = formatDate(report.metadata.startDate);
+  const periodEnd = formatDate(report.metadata.endDate);
+  return `AppStore_Journal_${periodStart}_${periodEnd}.${FILE_EXTENSIONS[format]}`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Money
+ * Exact amounts as integer minor units with each currency's ISO 4217
+ * precision (JPY 0, USD 2, KWD 3), so sums never drift and nothing is
+ * forced to two decimals
+ */
+
+import type { MinorUnits } from './types';
+
+/** Precision used when the runtime doesn't know a currency code */
+const DEFAULT_PRECISION = 2;
+
+const precisionCache = new Map<string, number>();
+
+/**
+ * Number of decimal places a currency is quoted in
+ */
+export function getCurrencyPrecision(currency: string): number {
+  let precision = precisionCache.get(currency);
+  if (precision === undefined) {
+    try {
+      precision = new Intl.NumberFormat('en-US', { style: 'currency', currency })
+        .resolvedOptions().maximumFractionDigits ?? DEFAULT_PRECISION;
+    } catch {
+      // Malformed or empty currency codes
+      precision = DEFAULT_PRECISION;
+    }
+    precisionCache.set(currency, precision);
+  }
+  return precision;
+}
+
+/**
+ * Round half away from zero, so refunds round like the sales they reverse
+ */
+function roundHalfAway(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value));
+}
+
+/**
+ * Parse a decimal string exactly into minor units, rounding any digits
+ * beyond the currency's precision. Returns null when the value is not a
+ * plain decimal number.
+ */
+export function parseMoney(value: string, currency: string): MinorUnits | null {
+  const match = value.trim().match(/^([+-]?)(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[2] && !match[3])) {
+    return null;
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const precision = getCurrencyPrecision(currency);
+  const digits = fraction.padEnd(precision, '0');
+
+  let minor = Number(whole || '0') * 10 ** precision + Number(digits.slice(0, precision) || '0');
+  if (Number(digits[precision] ?? '0') >= 5) {
+    minor += 1;
+  }
+
+  return sign === '-' && minor !== 0 ? -minor : minor;
+}
+
+/**
+ * Convert minor units into a (floating point) amount in major units, for
+ * ratios and display
+ */
+export function toMajor(amount: MinorUnits, currency: string): number {
+  return amount / 10 ** getCurrencyPrecision(currency);
+}
+
+/**
+ * Round a computed major-unit amount (e.g. a converted or estimated value)
+ * to minor units
+ */
+export function fromMajor(amount: number, currency: string): MinorUnits {
+  return roundHalfAway(amount * 10 ** getCurrencyPrecision(currency));
+}
+
+/**
+ * Multiply an amount by a factor such as a tax share, rounding to minor units
+ */
+export function scaleMoney(amount: MinorUnits, factor: number): MinorUnits {
+  return roundHalfAway(amount * factor);
+}
+
+/**
+ * Convert an amount into another currency at `rate` units of the target
+ * per unit of the source
+ */
+export function convertMoney(
+  amount: MinorUnits,
+  currency: string,
+  rate: number,
+  targetCurrency: string
+): MinorUnits {
+  return fromMajor(toMajor(amount, currency) * rate, targetCurrency);
+}
+
+/**
+ * Plain decimal string with exactly the currency's precision, e.g. "-1234.50"
+ * for USD or "1200" for JPY. Used for machine-readable exports.
+ */
+export function formatAmount(amount: MinorUnits, currency: string): string {
+  const precision = getCurrencyPrecision(currency);
+  const sign = amount < 0 ? '-' : '';
+  const digits = Math.abs(amount).toString().padStart(precision + 1, '0');
+
+  if (precision === 0) {
+    return sign + digits;
+  }
+  return `${sign}${digits.slice(0, -precision)}.${digits.slice(-precision)}`;
+}
@@ -0,0 +1,27 @@
+/**
+ * Parse Worker
+ * Loads uploaded reports off the main thread so very large files don't
+ * freeze the page, posting progress as each file is read
+ */
+
+import { loadReportFiles } from './report-stream';
+import type { LoadedReports, LoadProgress } from './types';
+
+/** Messages the worker posts back to the page */
+export type ParseWorkerMessage =
+  | { type: 'progress'; progress: LoadProgress }
+  | { type: 'done'; result: LoadedReports }
+  | { type: 'error'; message: string };
+
+function post(message: ParseWorkerMessage): void {
+  self.postMessage(message);
+}
+
+self.onmessage = async (e: MessageEvent<File[]>) => {
+  try {
+    const result = await loadReportFiles(e.data, (progress) => post({ type: 'progress', progress }));
+    post({ type: 'done', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Failed to read the files' });
+  }
+};
@@ -0,0 +1,16 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAppleReport } from './parser';
+import { FINANCIAL_REPORT } from './test-fixtures';
+
+test('skips the Total_* trailer lines without diagnostics', () => {
+  const report = parseAppleReport(FINANCIAL_REPORT, 'report.txt');
+
+  assert.equal(report.transactions.length, 2);
+  assert.deepEqual(report.diagnostics, []);
+  assert.deepEqual(report.reportedSummary?.map((r) => r.countryOfSale), ['US', 'DE']);
+  assert.deepEqual(
+    report.summary.byCurrency.map((c) => [c.currency, c.totalProceeds]),
+    [['EUR', 3500], ['USD', 1398]]
+  );
+});
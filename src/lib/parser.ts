@@ -1,27 +1,41 @@
 /**
  * Apple App Store Financial Report Parser
- * Parses TXT/TSV files from App Store Connect
+ * Parses TXT/TSV files from App Store Connect: financial reports and
+ * Sales and Trends summary reports
  */
 
 import type {
+  ReportType,
   ReportMetadata,
   Transaction,
   CountryBreakdown,
   ProductBreakdown,
+  ProductCurrencyBreakdown,
   CurrencySummary,
   ParsedReport,
+  ReportSummary,
+  CountrySummaryRow,
   ValidationResult,
+  ParseError,
+  MinorUnits,
 } from './types';
+import Papa from 'papaparse';
+import { parseMoney, toMajor, getCurrencyPrecision } from './money';
+import { getIntlLocale, type Locale } from './i18n';
 
-/** Column headers expected in Apple financial reports */
-const REQUIRED_COLUMNS = [
-  'Country of Sale',
-  'Partner Share Currency',
-  'Quantity',
-  'Extended Partner Share',
-];
+/** Column layout of one kind of Apple report */
+interface ReportLayout {
+  type: ReportType;
+  /** Header cells that identify this layout */
+  signature: string[];
+  /** Column headers expected in the report */
+  requiredColumns: string[];
+  columnMap: Record<string, keyof Transaction>;
+  /** Apple columns the parser knows about but doesn't use */
+  ignoredColumns: string[];
+}
 
-const COLUMN_MAP: Record<string, keyof Transaction> = {
+const FINANCIAL_COLUMN_MAP: Record<string, keyof Transaction> = {
   'Transaction Date': 'transactionDate',
   'Settlement Date': 'settlementDate',
   'Apple Identifier': 'appleIdentifier',
@@ -40,13 +54,266 @@ const COLUMN_MAP: Record<string, keyof Transaction> = {
   'Promo Code': 'promoCode',
   'Order Type': 'orderType',
   'Region': 'region',
+  'Subscription': 'subscription',
+  'Period': 'period',
+  'Proceeds Reason': 'proceedsReason',
+};
+
+const SALES_COLUMN_MAP: Record<string, keyof Transaction> = {
+  'Begin Date': 'transactionDate',
+  'Apple Identifier': 'appleIdentifier',
+  'SKU': 'sku',
+  'Title': 'title',
+  'Developer': 'developerName',
+  'Product Type Identifier': 'productTypeIdentifier',
+  'Country Code': 'countryOfSale',
+  'Units': 'quantity',
+  'Developer Proceeds': 'partnerShare',
+  'Currency of Proceeds': 'partnerShareCurrency',
+  'Customer Price': 'customerPrice',
+  'Customer Currency': 'customerCurrency',
+  'Promo Code': 'promoCode',
+  'Order Type': 'orderType',
+  'Subscription': 'subscription',
+  'Period': 'period',
+  'Proceeds Reason': 'proceedsReason',
+};
+
+const REPORT_LAYOUTS: ReportLayout[] = [
+  {
+    type: 'financial',
+    signature: ['Transaction Date', 'Country of Sale'],
+    requiredColumns: [
+      'Country of Sale',
+      'Partner Share Currency',
+      'Quantity',
+      'Extended Partner Share',
+    ],
+    columnMap: FINANCIAL_COLUMN_MAP,
+    ignoredColumns: [
+      'Parent Identifier',
+      'Download Date (PST)',
+      'Customer Identifier',
+      'Report Date (Local)',
+      'Sales/Return Confirmed',
+    ],
+  },
+  {
+    type: 'sales',
+    signature: ['Developer Proceeds', 'Currency of Proceeds'],
+    requiredColumns: [
+      'Country Code',
+      'Currency of Proceeds',
+      'Units',
+      'Developer Proceeds',
+      'Begin Date',
+    ],
+    columnMap: SALES_COLUMN_MAP,
+    ignoredColumns: [
+      'Provider',
+      'Provider Country',
+      'Version',
+      'End Date',
+      'Parent Identifier',
+      'Category',
+      'CMB',
+      'Device',
+      'Supported Platforms',
+      'Preserved Pricing',
+      'Client',
+    ],
+  },
+];
+
+/** The transaction header must be among this many non-empty lines */
+const HEADER_SEARCH_LINES = 10;
+
+/** A quoted field may run over at most this many lines */
+const MAX_RECORD_LINES = 20;
+
+/** Transaction money fields and the field holding their currency */
+const MONEY_FIELDS: Partial<Record<keyof Transaction, keyof Transaction>> = {
+  partnerShare: 'partnerShareCurrency',
+  extendedPartnerShare: 'partnerShareCurrency',
+  customerPrice: 'customerCurrency',
 };
 
+/** Transaction fields holding MM/DD/YYYY dates */
+const DATE_FIELDS: (keyof Transaction)[] = ['transactionDate', 'settlementDate'];
+
+/** Transaction fields holding ISO 4217 currency codes */
+const CURRENCY_FIELDS: (keyof Transaction)[] = ['partnerShareCurrency', 'customerCurrency'];
+
+/** Currency codes the runtime knows, when it can list them */
+const KNOWN_CURRENCIES: Set<string> | null =
+  typeof Intl.supportedValuesOf === 'function'
+    ? new Set(Intl.supportedValuesOf('currency'))
+    : null;
+
+/** A problem found in one row, before line context is attached */
+type RowIssue = Pick<ParseError, 'code' | 'severity' | 'message' | 'column'>;
+
+/** Display names for each report type */
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  financial: 'Financial Report',
+  sales: 'Sales and Trends',
+};
+
+/** Joins physical lines into records, keeping line breaks inside quoted fields */
+interface RecordReader {
+  /** Add the next line, numbered from 1 */
+  add(line: string, number: number): void;
+  /** Emit a record still waiting for its closing quote */
+  flush(): void;
+}
+
+/**
+ * Create a record reader. Records are passed on with the number of their
+ * first line; CRLF endings and a leading byte order mark are removed.
+ */
+function createRecordReader(
+  delimiter: string,
+  onRecord: (record: string, number: number) => void
+): RecordReader {
+  let open: { lines: string[]; number: number } | null = null;
+
+  // A quote that is never closed would otherwise swallow the rest of the
+  // file: its first line is passed on alone and the others are read again
+  const abandon = () => {
+    const { lines, number } = open!;
+    open = null;
+    onRecord(lines[0], number);
+    lines.slice(1).forEach((line, i) => add(line, number + 1 + i));
+  };
+
+  const add = (line: string, number: number) => {
+    line = line.endsWith('\r') ? line.slice(0, -1) : line;
+    if (number === 1) {
+      line = line.replace(/^\uFEFF/, '');
+    }
+
+    if (open) {
+      open.lines.push(line);
+    } else if (!line.includes('"')) {
+      onRecord(line, number);
+      return;
+    } else {
+      open = { lines: [line], number };
+    }
+
+    if (!hasOpenQuote(open.lines.join('\n'), delimiter)) {
+      onRecord(open.lines.join('\n'), open.number);
+      open = null;
+    } else if (open.lines.length >= MAX_RECORD_LINES) {
+      abandon();
+    }
+  };
+
+  return {
+    add,
+    flush: () => {
+      while (open) abandon();
+    },
+  };
+}
+
+/**
+ * Check whether a record ends inside a quoted field. As in RFC 4180, a
+ * quote only opens a field when it is the field's first character.
+ */
+function hasOpenQuote(record: string, delimiter: string): boolean {
+  let quoted = false;
+  let fieldStart = true;
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+    if (quoted) {
+      if (char === '"') {
+        if (record[i + 1] === '"') {
+          i++;
+        } else {
+          quoted = false;
+        }
+      }
+    } else if (fieldStart && char === '"') {
+      quoted = true;
+      fieldStart = false;
+    } else {
+      fieldStart = char === delimiter;
+    }
+  }
+  return quoted;
+}
+
+/**
+ * Split a record into fields. Quoted fields may contain the delimiter,
+ * doubled quotes and line breaks; records without quotes take a fast path.
+ */
+function splitRecord(record: string, delimiter: string): string[] {
+  if (!record.includes('"')) {
+    return record.split(delimiter);
+  }
+  const { data, errors } = Papa.parse<string[]>(record, { delimiter, newline: '\n' });
+  // Stray quotes are taken literally, as the plain split always did
+  return errors.length > 0 || !data[0] ? record.split(delimiter) : data[0];
+}
+
+/**
+ * Read the first `count` non-empty records of content as fields, without
+ * splitting the whole file
+ */
+function leadingRows(content: string, delimiter: string, count: number): string[][] {
+  const rows: string[][] = [];
+  const reader = createRecordReader(delimiter, (record) => {
+    if (record.trim() && rows.length < count) {
+      rows.push(splitRecord(record, delimiter));
+    }
+  });
+
+  let start = 0;
+  let number = 0;
+  while (rows.length < count && start <= content.length) {
+    const end = content.indexOf('\n', start);
+    reader.add(content.slice(start, end === -1 ? content.length : end), ++number);
+    if (end === -1) break;
+    start = end + 1;
+  }
+  reader.flush();
+  return rows;
+}
+
+/**
+ * Check an MM/DD/YYYY date for a real calendar day
+ */
+function isValidDate(value: string): boolean {
+  const match = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!match) return false;
+  const [month, day, year] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Check a currency code against ISO 4217
+ */
+function isKnownCurrency(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code) && (KNOWN_CURRENCIES?.has(code) ?? true);
+}
+
 /**
  * Detect the delimiter used in the file (tab or comma)
  */
 export function detectDelimiter(content: string): string {
-  const firstLines = content.split('\n').slice(0, 5).join('\n');
+  // Only the first five lines count; find where they end rather than
+  // splitting a file that may have hundreds of thousands of rows
+  let end = -1;
+  for (let i = 0; i < 5; i++) {
+    end = content.indexOf('\n', end + 1);
+    if (end === -1) {
+      end = content.length;
+      break;
+    }
+  }
+  const firstLines = content.slice(0, end);
   const tabCount = (firstLines.match(/\t/g) || []).length;
   const commaCount = (firstLines.match(/,/g) || []).length;
   return tabCount > commaCount ? '\t' : ',';
@@ -55,15 +322,15 @@ export function detectDelimiter(content: string): string {
 /**
  * Parse metadata from the first lines of the report
  */
-function parseMetadata(lines: string[], delimiter: string): ReportMetadata {
+function parseMetadata(rows: string[][]): ReportMetadata {
   const metadata: ReportMetadata = {
+    reportType: 'financial',
     vendorName: '',
     startDate: '',
     endDate: '',
   };
 
-  for (const line of lines.slice(0, 5)) {
-    const parts = line.split(delimiter);
+  for (const parts of rows.slice(0, 5)) {
     if (parts.length >= 2) {
       const key = parts[0].trim();
       const value = parts[1].trim();
@@ -82,33 +349,113 @@ function parseMetadata(lines: string[], delimiter: string): ReportMetadata {
 }
 
 /**
- * Find the line index where the transaction data headers start
+ * Find the line where the transaction data headers start, and the report
+ * layout those headers belong to
  */
-function findHeaderLine(lines: string[], delimiter: string): number {
-  for (let i = 0; i < Math.min(lines.length, 10); i++) {
-    const line = lines[i];
-    if (line.includes('Transaction Date') && line.includes('Country of Sale')) {
-      return i;
+function findHeaderLine(rows: string[][]): { index: number; layout: ReportLayout } | null {
+  for (let i = 0; i < Math.min(rows.length, HEADER_SEARCH_LINES); i++) {
+    const layout = detectLayout(rows[i]);
+    if (layout) {
+      return { index: i, layout };
     }
   }
-  return -1;
+  return null;
 }
 
 /**
- * Find the line index where the summary section starts
+ * Find the report layout whose header signature matches a row's cells
  */
-function findSummaryLine(lines: string[], delimiter: string): number {
-  for (let i = lines.length - 1; i >= 0; i--) {
-    const line = lines[i].trim();
-    if (line.startsWith('Country Of Sale') || line.startsWith('Country of Sale')) {
-      // Check if this is the summary header (has fewer columns)
-      const parts = line.split(delimiter);
-      if (parts.length <= 5) {
-        return i;
-      }
-    }
+function detectLayout(row: string[]): ReportLayout | undefined {
+  const cells = row.map((cell) => cell.trim());
+  return REPORT_LAYOUTS.find((l) => l.signature.every((header) => cells.includes(header)));
+}
+
+/**
+ * Widen a Sales and Trends report's period to cover one row. These reports
+ * have no header block: the period spans the Begin/End Date columns.
+ */
+function widenSalesPeriod(
+  period: { startDate: string; endDate: string },
+  row: string[],
+  headers: string[]
+): void {
+  const beginIdx = headers.indexOf('Begin Date');
+  const endIdx = headers.indexOf('End Date');
+  const begin = row[beginIdx]?.trim();
+  const end = row[endIdx === -1 ? beginIdx : endIdx]?.trim();
+
+  // Compared in ISO form so MM/DD/YYYY sorts correctly
+  if (begin && (!period.startDate || formatDate(begin) < formatDate(period.startDate))) {
+    period.startDate = begin;
+  }
+  if (end && (!period.endDate || formatDate(end) >= formatDate(period.endDate))) {
+    period.endDate = end;
+  }
+}
+
+/**
+ * Check whether a row is the header of Apple's trailing per-country
+ * summary block (it has far fewer columns than the transaction header)
+ */
+function isSummaryHeader(row: string[]): boolean {
+  const first = row[0].trim().toLowerCase();
+  return first === 'country of sale' && row.length <= 5;
+}
+
+/**
+ * Check whether a row is one of the trailer lines ("Total_Rows",
+ * "Total_Amount", "Total_Units") Apple writes after the transactions
+ */
+function isTrailerRow(row: string[]): boolean {
+  return /^total_/i.test(row[0].trim());
+}
+
+/** Column positions in the per-country summary block */
+interface SummaryColumns {
+  country: number;
+  currency: number;
+  quantity: number;
+  proceeds: number;
+}
+
+/**
+ * Read the summary block's columns from its header row.
+ * Returns null when a required column is missing.
+ */
+function parseSummaryHeader(row: string[]): SummaryColumns | null {
+  const headers = row.map((h) => h.trim().toLowerCase());
+  const columns = {
+    country: headers.indexOf('country of sale'),
+    currency: headers.indexOf('partner share currency'),
+    quantity: headers.indexOf('quantity'),
+    proceeds: headers.indexOf('extended partner share'),
+  };
+
+  if (columns.country === -1 || columns.currency === -1 || columns.proceeds === -1) {
+    return null;
   }
-  return lines.length;
+  return columns;
+}
+
+/**
+ * Parse one row of the per-country summary block.
+ * Returns null for trailing totals lines such as "Total_Rows".
+ */
+function parseSummaryRow(row: string[], columns: SummaryColumns): CountrySummaryRow | null {
+  const parts = row.map((p) => p.trim());
+  const countryOfSale = parts[columns.country] ?? '';
+  const currency = parts[columns.currency] ?? '';
+
+  if (!countryOfSale || !/^[A-Z]{3}$/.test(currency)) {
+    return null;
+  }
+
+  return {
+    countryOfSale,
+    currency,
+    quantity: columns.quantity === -1 ? 0 : parseInt(parts[columns.quantity], 10) || 0,
+    extendedPartnerShare: parseMoney(parts[columns.proceeds] ?? '', currency) ?? 0,
+  };
 }
 
 /**
@@ -116,36 +463,126 @@ function findSummaryLine(lines: string[], delimiter: string): number {
  */
 function parseTransaction(
   row: string[],
-  headers: string[]
+  headers: string[],
+  layout: ReportLayout,
+  issues: RowIssue[]
 ): Transaction | null {
-  const transaction: Partial<Transaction> = {};
+  // Start from empty values so columns a layout lacks are still defined
+  const transaction: Transaction = {
+    transactionDate: '',
+    settlementDate: '',
+    appleIdentifier: '',
+    sku: '',
+    title: '',
+    developerName: '',
+    productTypeIdentifier: '',
+    countryOfSale: '',
+    quantity: 0,
+    partnerShare: 0,
+    extendedPartnerShare: 0,
+    partnerShareCurrency: '',
+    customerPrice: 0,
+    customerCurrency: '',
+    saleOrReturn: '',
+    promoCode: '',
+    orderType: '',
+    region: '',
+    subscription: '',
+    period: '',
+    proceedsReason: '',
+  };
+
+  // Money columns can precede their currency column, so they are parsed
+  // once the whole row has been read
+  const moneyValues: [keyof Transaction, string, string][] = [];
+  const invalidNumber = (header: string, value: string, kind: string): RowIssue => ({
+    code: 'invalid-number',
+    severity: 'warning',
+    message: value === ''
+      ? `${header} is empty; counted as 0`
+      : `"${value}" is not a valid ${kind}; counted as 0`,
+    column: header,
+  });
 
   for (let i = 0; i < headers.length; i++) {
     const header = headers[i];
     const value = row[i]?.trim() ?? '';
-    const mappedKey = COLUMN_MAP[header];
-
-    if (mappedKey) {
-      if (mappedKey === 'quantity') {
-        transaction[mappedKey] = parseInt(value, 10) || 0;
-      } else if (
-        mappedKey === 'partnerShare' ||
-        mappedKey === 'extendedPartnerShare' ||
-        mappedKey === 'customerPrice'
-      ) {
-        transaction[mappedKey] = parseFloat(value) || 0;
-      } else {
-        (transaction as Record<string, string>)[mappedKey] = value;
+    const mappedKey = layout.columnMap[header];
+
+    if (!mappedKey) continue;
+
+    if (mappedKey === 'quantity') {
+      const quantity = Number(value);
+      const valid = value !== '' && Number.isInteger(quantity);
+      if (!valid) {
+        issues.push(invalidNumber(header, value, 'whole number'));
       }
+      transaction.quantity = valid ? quantity : 0;
+      continue;
+    }
+
+    if (mappedKey in MONEY_FIELDS) {
+      moneyValues.push([mappedKey, header, value]);
+      continue;
+    }
+
+    if (value && DATE_FIELDS.includes(mappedKey) && !isValidDate(value)) {
+      issues.push({
+        code: 'invalid-date',
+        severity: 'warning',
+        message: `"${value}" is not a valid MM/DD/YYYY date`,
+        column: header,
+      });
     }
+    if (value && CURRENCY_FIELDS.includes(mappedKey) && !isKnownCurrency(value)) {
+      issues.push({
+        code: 'unknown-currency',
+        severity: 'warning',
+        message: `"${value}" is not a known currency code`,
+        column: header,
+      });
+    }
+    (transaction as unknown as Record<string, string>)[mappedKey] = value;
+  }
+
+  for (const [key, header, value] of moneyValues) {
+    const currency = transaction[MONEY_FIELDS[key]!] as string;
+    const amount = parseMoney(value, currency);
+    // Apple leaves Customer Price blank on some free items
+    if (amount === null && !(value === '' && key === 'customerPrice')) {
+      issues.push(invalidNumber(header, value, 'number'));
+    }
+    (transaction as unknown as Record<string, MinorUnits>)[key] = amount ?? 0;
   }
 
   // Validate essential fields
+  const countryHeader = layout.type === 'sales' ? 'Country Code' : 'Country of Sale';
+  const currencyHeader = layout.type === 'sales' ? 'Currency of Proceeds' : 'Partner Share Currency';
+  for (const [value, column] of [
+    [transaction.countryOfSale, countryHeader],
+    [transaction.partnerShareCurrency, currencyHeader],
+  ]) {
+    if (!value) {
+      issues.push({
+        code: 'missing-field',
+        severity: 'error',
+        message: `Row skipped: ${column} is empty`,
+        column,
+      });
+    }
+  }
   if (!transaction.countryOfSale || !transaction.partnerShareCurrency) {
     return null;
   }
 
-  return transaction as Transaction;
+  // Sales and Trends rows carry per-unit proceeds and mark refunds with
+  // negative units instead of a Sale or Return column
+  if (layout.type === 'sales') {
+    transaction.extendedPartnerShare = transaction.quantity * transaction.partnerShare;
+    transaction.saleOrReturn = transaction.quantity < 0 ? 'R' : 'S';
+  }
+
+  return transaction;
 }
 
 /**
@@ -157,28 +594,33 @@ export function validateReport(
 ): ValidationResult {
   const errors: string[] = [];
   const warnings: string[] = [];
-  const lines = content.split('\n').filter((l) => l.trim());
+  const rows = leadingRows(content, delimiter, HEADER_SEARCH_LINES);
 
-  if (lines.length < 5) {
+  if (rows.length < 2) {
     errors.push('File appears to be empty or too short');
     return { valid: false, errors, warnings };
   }
 
-  const headerLine = findHeaderLine(lines, delimiter);
-  if (headerLine === -1) {
-    errors.push('Could not find transaction data headers. Is this an Apple App Store financial report?');
+  const header = findHeaderLine(rows);
+  if (!header) {
+    errors.push('Could not find transaction data headers. Is this an Apple App Store financial or Sales and Trends report?');
     return { valid: false, errors, warnings };
   }
 
-  const headers = lines[headerLine].split(delimiter).map((h) => h.trim());
+  const headers = rows[header.index].map((h) => h.trim());
 
-  for (const required of REQUIRED_COLUMNS) {
+  for (const required of header.layout.requiredColumns) {
     if (!headers.includes(required)) {
       errors.push(`Missing required column: ${required}`);
     }
   }
 
-  const metadata = parseMetadata(lines, delimiter);
+  // Sales and Trends reports have no metadata block to check
+  if (header.layout.type === 'sales') {
+    return { valid: errors.length === 0, errors, warnings };
+  }
+
+  const metadata = parseMetadata(rows);
   if (!metadata.vendorName) {
     warnings.push('Vendor name not found in report');
   }
@@ -194,144 +636,442 @@ export function validateReport(
 }
 
 /**
- * Aggregate transactions by country
+ * Check whether a transaction is a refund rather than a sale
  */
-function aggregateByCountry(transactions: Transaction[]): CountryBreakdown[] {
-  const map = new Map<string, CountryBreakdown>();
+export function isReturn(t: Transaction): boolean {
+  return t.saleOrReturn === 'R';
+}
 
-  for (const t of transactions) {
-    const key = `${t.countryOfSale}-${t.partnerShareCurrency}`;
-    const existing = map.get(key);
+/**
+ * Add a transaction to the running totals by country
+ */
+function addToCountry(map: Map<string, CountryBreakdown>, t: Transaction): void {
+  const key = `${t.countryOfSale}-${t.partnerShareCurrency}`;
+  let existing = map.get(key);
 
-    if (existing) {
-      existing.quantity += t.quantity;
-      existing.proceeds += t.extendedPartnerShare;
-    } else {
-      map.set(key, {
-        countryOfSale: t.countryOfSale,
-        currency: t.partnerShareCurrency,
-        quantity: t.quantity,
-        proceeds: t.extendedPartnerShare,
-      });
-    }
+  if (!existing) {
+    existing = {
+      countryOfSale: t.countryOfSale,
+      currency: t.partnerShareCurrency,
+      quantity: 0,
+      returnedQuantity: 0,
+      grossProceeds: 0,
+      returnProceeds: 0,
+      proceeds: 0,
+    };
+    map.set(key, existing);
   }
 
-  return Array.from(map.values()).sort((a, b) =>
-    a.countryOfSale.localeCompare(b.countryOfSale)
-  );
+  existing.quantity += t.quantity;
+  existing.proceeds += t.extendedPartnerShare;
+  if (isReturn(t)) {
+    existing.returnedQuantity += Math.abs(t.quantity);
+    existing.returnProceeds += t.extendedPartnerShare;
+  } else {
+    existing.grossProceeds += t.extendedPartnerShare;
+  }
 }
 
 /**
- * Aggregate transactions by product
+ * Add a transaction to the running totals by product
  */
-function aggregateByProduct(transactions: Transaction[]): ProductBreakdown[] {
-  const map = new Map<string, ProductBreakdown>();
+function addToProduct(map: Map<string, ProductBreakdown>, t: Transaction): void {
+  let existing = map.get(t.sku);
+
+  if (!existing) {
+    existing = {
+      title: t.title,
+      sku: t.sku,
+      quantity: 0,
+      returnedQuantity: 0,
+      grossByCurrency: {},
+      returnsByCurrency: {},
+      proceedsByCurrency: {},
+    };
+    map.set(t.sku, existing);
+  }
+
+  const currency = t.partnerShareCurrency;
+  existing.quantity += t.quantity;
+  existing.proceedsByCurrency[currency] =
+    (existing.proceedsByCurrency[currency] || 0) + t.extendedPartnerShare;
+
+  if (isReturn(t)) {
+    existing.returnedQuantity += Math.abs(t.quantity);
+    existing.returnsByCurrency[currency] =
+      (existing.returnsByCurrency[currency] || 0) + t.extendedPartnerShare;
+  } else {
+    existing.grossByCurrency[currency] =
+      (existing.grossByCurrency[currency] || 0) + t.extendedPartnerShare;
+  }
+}
+
+/**
+ * Aggregate transactions by product and proceeds currency, so every row
+ * has amounts in one currency (used by tidy exports)
+ */
+export function aggregateProductsByCurrency(transactions: Transaction[]): ProductCurrencyBreakdown[] {
+  const map = new Map<string, ProductCurrencyBreakdown>();
 
   for (const t of transactions) {
-    const existing = map.get(t.sku);
+    const key = `${t.sku}-${t.partnerShareCurrency}`;
+    let existing = map.get(key);
 
-    if (existing) {
-      existing.quantity += t.quantity;
-      existing.proceedsByCurrency[t.partnerShareCurrency] =
-        (existing.proceedsByCurrency[t.partnerShareCurrency] || 0) +
-        t.extendedPartnerShare;
-    } else {
-      map.set(t.sku, {
+    if (!existing) {
+      existing = {
         title: t.title,
         sku: t.sku,
-        quantity: t.quantity,
-        proceedsByCurrency: {
-          [t.partnerShareCurrency]: t.extendedPartnerShare,
-        },
-      });
+        currency: t.partnerShareCurrency,
+        quantity: 0,
+        returnedQuantity: 0,
+        grossProceeds: 0,
+        returnProceeds: 0,
+        proceeds: 0,
+      };
+      map.set(key, existing);
+    }
+
+    existing.quantity += t.quantity;
+    existing.proceeds += t.extendedPartnerShare;
+    if (isReturn(t)) {
+      existing.returnedQuantity += Math.abs(t.quantity);
+      existing.returnProceeds += t.extendedPartnerShare;
+    } else {
+      existing.grossProceeds += t.extendedPartnerShare;
     }
   }
 
-  return Array.from(map.values()).sort((a, b) => a.title.localeCompare(b.title));
+  return Array.from(map.values()).sort(
+    (a, b) => a.title.localeCompare(b.title) || a.currency.localeCompare(b.currency)
+  );
 }
 
 /**
- * Aggregate transactions by currency
+ * Add a transaction to the running totals by currency
  */
-function aggregateByCurrency(transactions: Transaction[]): CurrencySummary[] {
-  const map = new Map<string, CurrencySummary>();
+function addToCurrency(map: Map<string, CurrencySummary>, t: Transaction): void {
+  let existing = map.get(t.partnerShareCurrency);
 
-  for (const t of transactions) {
-    const existing = map.get(t.partnerShareCurrency);
+  if (!existing) {
+    existing = {
+      currency: t.partnerShareCurrency,
+      grossProceeds: 0,
+      returnProceeds: 0,
+      totalProceeds: 0,
+      totalQuantity: 0,
+      returnedQuantity: 0,
+    };
+    map.set(t.partnerShareCurrency, existing);
+  }
 
-    if (existing) {
-      existing.totalQuantity += t.quantity;
-      existing.totalProceeds += t.extendedPartnerShare;
-    } else {
-      map.set(t.partnerShareCurrency, {
-        currency: t.partnerShareCurrency,
-        totalQuantity: t.quantity,
-        totalProceeds: t.extendedPartnerShare,
-      });
-    }
+  existing.totalQuantity += t.quantity;
+  existing.totalProceeds += t.extendedPartnerShare;
+  if (isReturn(t)) {
+    existing.returnedQuantity += Math.abs(t.quantity);
+    existing.returnProceeds += t.extendedPartnerShare;
+  } else {
+    existing.grossProceeds += t.extendedPartnerShare;
   }
+}
 
-  return Array.from(map.values()).sort((a, b) =>
-    a.currency.localeCompare(b.currency)
-  );
+/** Running totals fed one transaction at a time */
+interface SummaryBuilder {
+  add(t: Transaction): void;
+  build(): ReportSummary;
+}
+
+function createSummaryBuilder(): SummaryBuilder {
+  const byCountry = new Map<string, CountryBreakdown>();
+  const byProduct = new Map<string, ProductBreakdown>();
+  const byCurrency = new Map<string, CurrencySummary>();
+  let totalTransactions = 0;
+  let totalReturns = 0;
+
+  return {
+    add: (t) => {
+      addToCountry(byCountry, t);
+      addToProduct(byProduct, t);
+      addToCurrency(byCurrency, t);
+      totalTransactions++;
+      if (isReturn(t)) totalReturns++;
+    },
+    build: () => ({
+      byCountry: Array.from(byCountry.values()).sort((a, b) =>
+        a.countryOfSale.localeCompare(b.countryOfSale)
+      ),
+      byProduct: Array.from(byProduct.values()).sort((a, b) => a.title.localeCompare(b.title)),
+      byCurrency: Array.from(byCurrency.values()).sort((a, b) =>
+        a.currency.localeCompare(b.currency)
+      ),
+      totalTransactions,
+      totalReturns,
+    }),
+  };
 }
 
 /**
- * Main parser function - parses an Apple App Store financial report
+ * Build the aggregated summary for a list of transactions
  */
-export function parseAppleReport(content: string): ParsedReport {
-  const delimiter = detectDelimiter(content);
-  const lines = content.split('\n').filter((l) => l.trim());
+export function buildSummary(transactions: Transaction[]): ReportSummary {
+  const builder = createSummaryBuilder();
+  for (const t of transactions) {
+    builder.add(t);
+  }
+  return builder.build();
+}
 
-  // Parse metadata
-  const metadata = parseMetadata(lines, delimiter);
+/** FNV-1a hash of a report's non-empty, trimmed lines */
+interface Fingerprint {
+  add(line: string): void;
+  digest(): string;
+}
+
+function createFingerprint(): Fingerprint {
+  let hash = 0x811c9dc5;
+  let empty = true;
+  const mix = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  };
 
-  // Find data boundaries
-  const headerLineIdx = findHeaderLine(lines, delimiter);
-  const summaryLineIdx = findSummaryLine(lines, delimiter);
+  return {
+    add: (line) => {
+      mix(empty ? line : `\n${line}`);
+      empty = false;
+    },
+    digest: () => (hash >>> 0).toString(16).padStart(8, '0'),
+  };
+}
 
-  if (headerLineIdx === -1) {
-    throw new Error('Invalid report format: could not find data headers');
+/**
+ * Compute a stable fingerprint of report content (FNV-1a over the
+ * non-empty, trimmed lines so line endings don't matter)
+ */
+export function fingerprintContent(content: string): string {
+  const fingerprint = createFingerprint();
+  for (const line of content.split('\n')) {
+    if (line.trim()) {
+      fingerprint.add(line.trim());
+    }
   }
+  return fingerprint.digest();
+}
 
-  // Parse headers
-  const headers = lines[headerLineIdx].split(delimiter).map((h) => h.trim());
+/** Parser fed a report a chunk of text at a time */
+export interface ReportParser {
+  /** Parse the complete lines in `chunk`; a trailing partial line waits for the next chunk */
+  push(chunk: string): void;
+  /** Parse the last line and build the report */
+  finish(): ParsedReport;
+}
 
-  // Parse transactions
+/**
+ * Create an incremental parser. Raw lines are parsed as they arrive and
+ * dropped; only transactions, running totals and diagnostics are kept, so
+ * reports of any size can be read in chunks (e.g. from a `File` stream).
+ */
+export function createReportParser(fileName = ''): ReportParser {
+  const diagnostics: ParseError[] = [];
   const transactions: Transaction[] = [];
-  for (let i = headerLineIdx + 1; i < summaryLineIdx; i++) {
-    const row = lines[i].split(delimiter);
-    const transaction = parseTransaction(row, headers);
-    if (transaction && transaction.saleOrReturn === 'S') {
+  const summary = createSummaryBuilder();
+  const fingerprint = createFingerprint();
+
+  let remainder = '';
+  let lineNumber = 0;
+
+  // Lines wait here until the first five show which delimiter is used
+  let delimiter: string | null = null;
+  const pending: [string, number][] = [];
+
+  // Lines are joined into records once the delimiter is known
+  let records: RecordReader | null = null;
+
+  // The first non-empty records hold the metadata and the transaction header
+  const leading: string[][] = [];
+  let header: { layout: ReportLayout; headers: string[] } | null = null;
+  const salesPeriod = { startDate: '', endDate: '' };
+
+  // Apple's trailing per-country summary, once its header has been seen
+  let reported: { columns: SummaryColumns | null; rows: CountrySummaryRow[] } | null = null;
+
+  const readHeader = (row: string[], number: number) => {
+    leading.push(row);
+    const layout = detectLayout(row);
+    if (!layout) {
+      if (leading.length >= HEADER_SEARCH_LINES) {
+        throw new Error('Invalid report format: could not find data headers');
+      }
+      return;
+    }
+
+    const headers = row.map((h) => h.trim());
+    for (const column of headers) {
+      if (column && !(column in layout.columnMap) && !layout.ignoredColumns.includes(column)) {
+        diagnostics.push({
+          code: 'unknown-header',
+          severity: 'warning',
+          message: `Unrecognised column "${column}" was ignored`,
+          line: number,
+          column,
+          fileName,
+        });
+      }
+    }
+    header = { layout, headers };
+  };
+
+  const readTransaction = (row: string[], record: string, number: number) => {
+    const { layout, headers } = header!;
+    if (layout.type === 'sales') {
+      widenSalesPeriod(salesPeriod, row, headers);
+    }
+
+    const issues: RowIssue[] = [];
+    if (row.length !== headers.length) {
+      issues.push({
+        code: 'column-count',
+        severity: 'warning',
+        message: `Row has ${row.length} columns, header has ${headers.length}`,
+      });
+    }
+
+    const transaction = parseTransaction(row, headers, layout, issues);
+    if (transaction && (transaction.saleOrReturn === 'S' || isReturn(transaction))) {
+      if (isReturn(transaction)) {
+        // Apple reports refunds with negative units and proceeds; enforce the
+        // sign so totals stay correct even if a report omits it
+        transaction.quantity = -Math.abs(transaction.quantity);
+        transaction.extendedPartnerShare = -Math.abs(transaction.extendedPartnerShare);
+      }
       transactions.push(transaction);
+      summary.add(transaction);
+    } else if (transaction) {
+      issues.push({
+        code: 'unknown-sale-or-return',
+        severity: 'error',
+        message: `Row skipped: Sale or Return is "${transaction.saleOrReturn}", expected S or R`,
+        column: 'Sale or Return',
+      });
     }
-  }
 
-  // Build summary
-  const summary = {
-    byCountry: aggregateByCountry(transactions),
-    byProduct: aggregateByProduct(transactions),
-    byCurrency: aggregateByCurrency(transactions),
-    totalTransactions: transactions.length,
+    for (const issue of issues) {
+      diagnostics.push({ ...issue, line: number, raw: record, fileName });
+    }
+  };
+
+  const readRecord = (record: string, number: number) => {
+    if (!record.trim()) return;
+    const row = splitRecord(record, delimiter!);
+
+    if (!header) {
+      readHeader(row, number);
+    } else if (reported) {
+      const summaryRow = reported.columns && parseSummaryRow(row, reported.columns);
+      if (summaryRow) reported.rows.push(summaryRow);
+    } else if (isSummaryHeader(row)) {
+      reported = { columns: parseSummaryHeader(row), rows: [] };
+    } else if (!isTrailerRow(row)) {
+      readTransaction(row, record, number);
+    }
+  };
+
+  const flushPending = () => {
+    delimiter = detectDelimiter(pending.map(([line]) => line).join('\n'));
+    records = createRecordReader(delimiter, readRecord);
+    for (const [line, number] of pending.splice(0)) {
+      records.add(line, number);
+    }
+  };
+
+  const readRawLine = (line: string) => {
+    lineNumber++;
+    if (line.trim()) {
+      fingerprint.add(line.trim());
+    }
+    if (delimiter === null) {
+      pending.push([line, lineNumber]);
+      if (pending.length === 5) flushPending();
+      return;
+    }
+    records!.add(line, lineNumber);
   };
 
   return {
-    metadata,
-    transactions,
-    summary,
+    push: (chunk) => {
+      const text = remainder + chunk;
+      let start = 0;
+      let end: number;
+      while ((end = text.indexOf('\n', start)) !== -1) {
+        readRawLine(text.slice(start, end));
+        start = end + 1;
+      }
+      remainder = text.slice(start);
+    },
+
+    finish: () => {
+      readRawLine(remainder);
+      remainder = '';
+      if (delimiter === null) flushPending();
+      records!.flush();
+
+      if (!header) {
+        throw new Error('Invalid report format: could not find data headers');
+      }
+
+      const metadata: ReportMetadata = header.layout.type === 'sales'
+        ? {
+            reportType: 'sales',
+            vendorName: transactions.find((t) => t.developerName)?.developerName ?? '',
+            ...salesPeriod,
+          }
+        : parseMetadata(leading);
+      const built = summary.build();
+
+      return {
+        metadata,
+        transactions,
+        summary: built,
+        reportedSummary: reported?.columns ? reported.rows : null,
+        sources: [
+          {
+            fileName,
+            vendorName: metadata.vendorName,
+            startDate: metadata.startDate,
+            endDate: metadata.endDate,
+            currencies: built.byCurrency.map((c) => c.currency),
+            transactionCount: transactions.length,
+            fingerprint: fingerprint.digest(),
+          },
+        ],
+        diagnostics,
+      };
+    },
   };
 }
 
 /**
- * Format a number as currency
+ * Main parser function - parses an Apple App Store financial report
+ */
+export function parseAppleReport(content: string, fileName = ''): ParsedReport {
+  const parser = createReportParser(fileName);
+  parser.push(content);
+  return parser.finish();
+}
+
+/**
+ * Format an amount in minor units as currency, with the currency's own
+ * number of decimals and the locale's separators
  */
-export function formatCurrency(amount: number, currency: string): string {
-  return new Intl.NumberFormat('en-US', {
+export function formatCurrency(amount: MinorUnits, currency: string, locale: Locale = 'en'): string {
+  const precision = getCurrencyPrecision(currency);
+  return new Intl.NumberFormat(getIntlLocale(locale), {
     style: 'currency',
     currency: currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
+    minimumFractionDigits: precision,
+    maximumFractionDigits: precision,
+  }).format(toMajor(amount, currency));
 }
 
 /**
@@ -0,0 +1,94 @@
+/**
+ * Payout Reconciliation
+ * Ties a statement to the amount Apple actually deposited, deriving the
+ * effective exchange rate applied to each currency
+ */
+
+import type {
+  ParsedReport,
+  ExchangeRates,
+  PayoutInput,
+  PayoutReconciliation,
+  CurrencyPayoutLine,
+  MinorUnits,
+} from './types';
+import { getRate } from './currency-converter';
+import { convertMoney, toMajor } from './money';
+
+/**
+ * Reconcile a report against the deposit.
+ *
+ * The deposit grossed up for withholding tax and adjustments is what Apple
+ * paid for the proceeds. When every currency has a rate, the gap between that
+ * amount and the expected value is the unexplained difference, and spreading
+ * it across the foreign currencies in proportion to their expected value gives
+ * the implied rates. When exactly one currency has no rate, its implied rate
+ * absorbs the remainder.
+ */
+export function reconcilePayout(
+  report: ParsedReport,
+  rates: ExchangeRates,
+  payout: PayoutInput
+): PayoutReconciliation {
+  const withholdingTax = payout.withholdingTax ?? 0;
+  const adjustments = payout.adjustments ?? 0;
+  const paidForProceeds = payout.depositAmount + withholdingTax - adjustments;
+
+  const lines: CurrencyPayoutLine[] = report.summary.byCurrency.map((c) => {
+    const rate = getRate(rates, c.currency);
+    return {
+      currency: c.currency,
+      netProceeds: c.totalProceeds,
+      rate,
+      expectedAmount: rate === null
+        ? null
+        : convertMoney(c.totalProceeds, c.currency, rate, rates.baseCurrency),
+      impliedRate: null,
+    };
+  });
+
+  const missing = lines.filter((l) => l.rate === null);
+  const knownProceeds = lines.reduce((sum, l) => sum + (l.expectedAmount ?? 0), 0);
+  let difference: MinorUnits | null = null;
+
+  if (missing.length === 0) {
+    // Base-currency proceeds need no conversion, so only foreign
+    // currencies share the gap between the deposit and the expected value
+    const baseAmount = lines
+      .filter((l) => l.currency === rates.baseCurrency)
+      .reduce((sum, l) => sum + (l.expectedAmount ?? 0), 0);
+    const foreignAmount = knownProceeds - baseAmount;
+    const factor = foreignAmount !== 0 ? (paidForProceeds - baseAmount) / foreignAmount : null;
+    for (const line of lines) {
+      if (line.currency === rates.baseCurrency) {
+        line.impliedRate = 1;
+      } else {
+        line.impliedRate = factor === null || line.rate === null ? null : line.rate * factor;
+      }
+    }
+    difference = paidForProceeds - knownProceeds;
+  } else if (missing.length === 1) {
+    const [line] = missing;
+    for (const l of lines) {
+      l.impliedRate = l.rate;
+    }
+    line.expectedAmount = paidForProceeds - knownProceeds;
+    line.impliedRate = line.netProceeds !== 0
+      ? toMajor(line.expectedAmount, rates.baseCurrency) / toMajor(line.netProceeds, line.currency)
+      : null;
+    difference = 0;
+  }
+
+  const expectedProceeds = lines.reduce((sum, l) => sum + (l.expectedAmount ?? 0), 0);
+
+  return {
+    baseCurrency: rates.baseCurrency,
+    lines,
+    expectedProceeds,
+    withholdingTax,
+    adjustments,
+    expectedDeposit: expectedProceeds - withholdingTax + adjustments,
+    depositAmount: payout.depositAmount,
+    difference,
+  };
+}
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAppleReport } from './parser';
+import { generatePDF, DEFAULT_PDF_SECTIONS, type PDFOptions, type PDFSection } from './pdf-generator';
+import { createTranslator } from './i18n';
+import { FINANCIAL_REPORT } from './test-fixtures';
+
+const t = createTranslator('en');
+const report = parseAppleReport(FINANCIAL_REPORT, 'report.txt');
+
+/** Title of each section that always draws when the report has transactions */
+const TITLES: Partial<Record<PDFSection, string>> = {
+  summary: t('section.summary'),
+  payout: t('section.payout'),
+  charts: t('section.charts'),
+  countries: t('section.countries'),
+  products: t('section.products'),
+  subscriptions: t('section.subscriptions'),
+  commission: t('section.commission'),
+  integrity: t('section.integrity'),
+  taxNotice: t('section.taxNotice'),
+  transactions: t('section.transactions'),
+};
+
+/**
+ * Sections whose title appears in the generated PDF
+ */
+function drawnSections(options: PDFOptions): PDFSection[] {
+  const content = generatePDF(report, options).output();
+  return (Object.keys(TITLES) as PDFSection[]).filter((section) => content.includes(`(${TITLES[section]})`));
+}
+
+test('draws exactly the sections listed in sections', () => {
+  for (const section of Object.keys(TITLES) as PDFSection[]) {
+    assert.deepEqual(drawnSections({ sections: [section] }), [section], section);
+  }
+});
+
+test('leaves the opt-in sections out by default', () => {
+  const drawn = drawnSections({});
+  assert.deepEqual(drawn, DEFAULT_PDF_SECTIONS.filter((section) => section in TITLES));
+  assert.ok(!drawn.includes('charts'));
+  assert.ok(!drawn.includes('transactions'));
+});
+
+test('ignores includeProductBreakdown when sections is set', () => {
+  assert.deepEqual(drawnSections({ sections: ['products'], includeProductBreakdown: false }), ['products']);
+  assert.ok(!drawnSections({ includeProductBreakdown: false }).includes('products'));
+});
@@ -4,22 +4,192 @@
  */
 
 import { jsPDF } from 'jspdf';
-import autoTable from 'jspdf-autotable';
-import type { ParsedReport } from './types';
+import autoTable, { type UserOptions } from 'jspdf-autotable';
+import type {
+  ParsedReport,
+  ExchangeRates,
+  ConvertedSummary,
+  PayoutInput,
+  PayoutReconciliation,
+  CommissionBreakdown,
+  ComparisonRow,
+  PeriodComparison,
+  MinorUnits,
+  Transaction,
+  RevenueTrends,
+  TrendShare,
+} from './types';
 import { formatCurrency, formatDate } from './parser';
+import { checkReportIntegrity } from './report-integrity';
+import { convertReport } from './currency-converter';
+import { reconcilePayout } from './payout-reconciliation';
+import { analyzeSubscriptions, translateSubscriptionLabel } from './subscription-analytics';
+import { analyzeCommission } from './commission-analysis';
+import { getExpectedPaymentDate, getFiscalLabel } from './fiscal-calendar';
+import { analyzeTrends, type TrendOptions } from './revenue-trends';
+import { formatCompactAmount } from './trend-charts';
+import { getCurrencyPrecision, toMajor } from './money';
+import {
+  createTranslator,
+  formatLocalDate,
+  formatLocalNumber,
+  getIntlLocale,
+  isMessageKey,
+  type Locale,
+  type Translate,
+} from './i18n';
+
+/** A TrueType font embedded in place of Helvetica */
+export interface PDFFont {
+  /** Family name the font is registered under */
+  name: string;
+  /** Regular weight .ttf file */
+  normal: Uint8Array;
+  /** Bold weight .ttf file; the regular weight is used when missing */
+  bold?: Uint8Array;
+}
+
+/** A PNG or JPEG logo for the statement header */
+export interface PDFLogo {
+  data: Uint8Array;
+  format: 'PNG' | 'JPEG';
+}
+
+/** Paper size of the statement */
+export type PDFPageSize = 'a4' | 'letter';
+
+/** Sections that can follow the header */
+export type PDFSection =
+  | 'summary'
+  | 'sources'
+  | 'comparison'
+  | 'payout'
+  | 'charts'
+  | 'countries'
+  | 'products'
+  | 'subscriptions'
+  | 'commission'
+  | 'integrity'
+  | 'taxNotice'
+  | 'disclaimer'
+  | 'transactions';
+
+/** Every section, in the default order */
+export const PDF_SECTIONS: PDFSection[] = [
+  'summary',
+  'sources',
+  'comparison',
+  'payout',
+  'charts',
+  'countries',
+  'products',
+  'subscriptions',
+  'commission',
+  'integrity',
+  'taxNotice',
+  'disclaimer',
+  'transactions',
+];
+
+/** Sections drawn when `sections` isn't set: all but the revenue charts and
+ *  the transaction appendix, which are opt-in */
+export const DEFAULT_PDF_SECTIONS: PDFSection[] = PDF_SECTIONS.filter(
+  (section) => section !== 'charts' && section !== 'transactions'
+);
+
+/** Human-readable section names for layout settings */
+export const PDF_SECTION_LABELS: Record<PDFSection, string> = {
+  summary: 'Summary',
+  sources: 'Source reports (merged statements)',
+  comparison: 'Period comparison',
+  payout: 'Payout reconciliation',
+  charts: 'Revenue trend charts',
+  countries: 'Country & currency breakdown',
+  products: 'Product breakdown',
+  subscriptions: 'Subscription breakdown',
+  commission: 'Gross vs. net proceeds',
+  integrity: 'Report integrity',
+  taxNotice: 'Tax handling notice',
+  disclaimer: 'Disclaimer',
+  transactions: 'Transaction appendix',
+};
 
 /** PDF generation options */
 export interface PDFOptions {
+  /** @deprecated Leave 'products' out of `sections` instead. `false` drops
+   *  the product breakdown from the default sections; ignored when
+   *  `sections` is set. */
   includeProductBreakdown?: boolean;
+  /** Currency and timeline interval of the charts (default: the base
+   *  currency when exchangeRates is set) */
+  chartOptions?: Omit<TrendOptions, 'exchangeRates'>;
   developerNameOverride?: string;
+  /** Replaces the "App Store Sales Statement" title */
+  title?: string;
+  /** Company logo, drawn at the top right of the first page */
+  logo?: PDFLogo;
+  /** Postal address shown under the developer name; may span several lines */
+  address?: string;
+  /** VAT or tax registration number shown under the address */
+  vatId?: string;
+  /** Paper size (default 'a4') */
+  pageSize?: PDFPageSize;
+  /** Title color as a hex value such as '#0066ff' */
+  accentColor?: string;
+  /** Sections to draw, in order (default `DEFAULT_PDF_SECTIONS`); list
+   *  'charts' or 'transactions' to add the revenue charts or the transaction
+   *  appendix. Sources and comparison are still skipped when the statement
+   *  has no data for them. */
+  sections?: PDFSection[];
+  /** Replaces the tax handling notice text */
+  taxNotice?: string;
+  /** Replaces the disclaimer text */
+  disclaimer?: string;
+  /** Text at the bottom of every page */
+  footer?: string;
+  /** Number pages as "Page 1 of 3" */
+  pageNumbers?: boolean;
+  /** When set, totals are also shown converted into the base currency */
+  exchangeRates?: ExchangeRates;
+  /** Deposit to reconcile against; requires exchangeRates */
+  payout?: PayoutInput;
+  /** When set, adds a comparison of this report against an earlier period */
+  comparison?: PeriodComparison;
+  /** Language of labels, numbers and dates (default 'en') */
+  locale?: Locale;
+  /** Font for text Helvetica can't show, such as Japanese or Cyrillic;
+   *  required for the 'ja' locale */
+  font?: PDFFont;
+}
+
+/** Language, formatters and font shared by all sections */
+interface Localizer {
+  t: Translate;
+  locale: Locale;
+  font: string;
+  money: (amount: MinorUnits, currency: string) => string;
+  date: (dateStr: string) => string;
 }
 
+/** Characters Helvetica can show: Latin-1 plus the WinAnsi punctuation */
+const HELVETICA_TEXT = /^[\u0000-\u00ff\u2013\u2014\u2018-\u201e\u2022\u2026\u20ac]*$/;
+
+/** Space kept free at the bottom of each page for the footer */
+const FOOTER_SPACE = 20;
+
+/** Largest logo size in mm; wider or taller logos are scaled down */
+const LOGO_MAX_WIDTH = 50;
+const LOGO_MAX_HEIGHT = 14;
+
 /** Colors for the PDF */
 const COLORS = {
   primary: [0, 102, 255] as [number, number, number],
   text: [15, 23, 42] as [number, number, number],
   textSecondary: [100, 116, 139] as [number, number, number],
   border: [226, 232, 240] as [number, number, number],
+  success: [16, 185, 129] as [number, number, number],
+  accent: [6, 182, 212] as [number, number, number],
+  error: [239, 68, 68] as [number, number, number],
   background: [248, 250, 252] as [number, number, number],
 };
 
@@ -30,44 +200,112 @@ export function generatePDF(
   report: ParsedReport,
   options: PDFOptions = {}
 ): jsPDF {
-  const includeProductBreakdown = options.includeProductBreakdown ?? true;
+  // `sections` alone decides what is drawn; the legacy flag only trims the defaults
+  const sections = options.sections ?? DEFAULT_PDF_SECTIONS.filter(
+    (section) => section !== 'products' || options.includeProductBreakdown !== false
+  );
+  const accentColor = options.accentColor ? parseHexColor(options.accentColor) : COLORS.primary;
 
   const doc = new jsPDF({
     orientation: 'portrait',
     unit: 'mm',
-    format: 'a4',
+    format: options.pageSize ?? 'a4',
   });
 
+  if (options.font) {
+    registerFont(doc, options.font);
+  }
+  const locale = options.locale ?? 'en';
+  const l: Localizer = {
+    t: createTranslator(locale),
+    locale,
+    font: options.font?.name ?? 'helvetica',
+    money: (amount, currency) => formatCurrency(amount, currency, locale),
+    date: (dateStr) => formatLocalDate(formatDate(dateStr), locale),
+  };
+
   const pageWidth = doc.internal.pageSize.getWidth();
   const margin = 20;
   const contentWidth = pageWidth - margin * 2;
   let yPos = margin;
 
   const developerName =
-    options.developerNameOverride || report.metadata.vendorName || 'Developer';
-
-  // === HEADER SECTION ===
-  yPos = addHeader(doc, yPos, margin, contentWidth, developerName, report);
+    options.developerNameOverride || report.metadata.vendorName || l.t('pdf.developer');
 
-  // === SUMMARY SECTION ===
-  yPos = addSummarySection(doc, yPos, margin, report);
+  const converted = options.exchangeRates
+    ? convertReport(report, options.exchangeRates)
+    : null;
+  const payout = options.exchangeRates && options.payout
+    ? reconcilePayout(report, options.exchangeRates, options.payout)
+    : null;
 
-  // === PAYOUT RECONCILIATION ===
-  yPos = addPayoutReconciliation(doc, yPos, margin, contentWidth);
-
-  // === COUNTRY & CURRENCY BREAKDOWN ===
-  yPos = addCountryBreakdown(doc, yPos, margin, report);
+  // === HEADER SECTION ===
+  yPos = addHeader(doc, l, yPos, margin, contentWidth, developerName, report, options, accentColor);
 
-  // === PRODUCT BREAKDOWN (optional) ===
-  if (includeProductBreakdown && report.summary.byProduct.length > 0) {
-    yPos = addProductBreakdown(doc, yPos, margin, report);
+  for (const section of sections) {
+    switch (section) {
+      case 'summary':
+        yPos = addSummarySection(doc, l, yPos, margin, report, converted);
+        break;
+      case 'sources':
+        // Merged statements only
+        if (report.sources.length > 1) {
+          yPos = addSourceReports(doc, l, yPos, margin, report);
+        }
+        break;
+      case 'comparison':
+        if (options.comparison) {
+          yPos = addPeriodComparison(doc, l, yPos, margin, contentWidth, options.comparison);
+        }
+        break;
+      case 'payout':
+        yPos = addPayoutReconciliation(doc, l, yPos, margin, contentWidth, converted, options.exchangeRates, payout);
+        break;
+      case 'charts':
+        if (report.transactions.length > 0) {
+          const trends = analyzeTrends(report, { ...options.chartOptions, exchangeRates: options.exchangeRates });
+          yPos = addRevenueCharts(doc, l, yPos, margin, contentWidth, trends);
+        }
+        break;
+      case 'countries':
+        yPos = addCountryBreakdown(doc, l, yPos, margin, report, converted);
+        break;
+      case 'products':
+        if (report.summary.byProduct.length > 0) {
+          yPos = addProductBreakdown(doc, l, yPos, margin, report, converted);
+        }
+        break;
+      case 'subscriptions':
+        if (report.transactions.length > 0) {
+          yPos = addSubscriptionBreakdown(doc, l, yPos, margin, report);
+        }
+        break;
+      case 'commission':
+        if (report.transactions.length > 0) {
+          yPos = addCommissionBreakdown(doc, l, yPos, margin, contentWidth, report);
+        }
+        break;
+      case 'integrity':
+        yPos = addReportIntegrity(doc, l, yPos, margin, contentWidth, report);
+        break;
+      case 'taxNotice':
+        yPos = addTaxNotice(doc, l, yPos, margin, contentWidth, options.taxNotice);
+        break;
+      case 'disclaimer':
+        yPos = addDisclaimer(doc, l, yPos, margin, contentWidth, options.disclaimer);
+        break;
+      case 'transactions':
+        if (report.transactions.length > 0) {
+          yPos = addTransactionAppendix(doc, l, margin, report);
+        }
+        break;
+    }
   }
 
-  // === TAX & ACCOUNTING NOTICE ===
-  yPos = addTaxNotice(doc, yPos, margin, contentWidth);
-
-  // === DISCLAIMER ===
-  addDisclaimer(doc, yPos, margin, contentWidth);
+  // === FOOTER ON EVERY PAGE ===
+  if (options.footer || options.pageNumbers) {
+    addPageFooters(doc, l, margin, contentWidth, options.footer, options.pageNumbers ?? false);
+  }
 
   return doc;
 }
@@ -77,17 +315,34 @@ export function generatePDF(
  */
 function addHeader(
   doc: jsPDF,
+  l: Localizer,
   yPos: number,
   margin: number,
   contentWidth: number,
   developerName: string,
-  report: ParsedReport
+  report: ParsedReport,
+  options: PDFOptions,
+  accentColor: [number, number, number]
 ): number {
+  // Logo, top right and scaled to fit above the rule
+  if (options.logo) {
+    const { width, height } = doc.getImageProperties(options.logo.data);
+    const scale = Math.min(LOGO_MAX_WIDTH / width, LOGO_MAX_HEIGHT / height);
+    doc.addImage(
+      options.logo.data,
+      options.logo.format,
+      margin + contentWidth - width * scale,
+      yPos - 8,
+      width * scale,
+      height * scale
+    );
+  }
+
   // Title
   doc.setFontSize(24);
-  doc.setTextColor(...COLORS.primary);
-  doc.setFont('helvetica', 'bold');
-  doc.text('App Store Sales Statement', margin, yPos);
+  doc.setTextColor(...accentColor);
+  doc.setFont(l.font, 'bold');
+  doc.text(options.title || l.t('pdf.title'), margin, yPos);
   yPos += 12;
 
   // Horizontal line
@@ -99,34 +354,68 @@ function addHeader(
   // Metadata grid
   doc.setFontSize(10);
   doc.setTextColor(...COLORS.textSecondary);
-  doc.setFont('helvetica', 'normal');
+  doc.setFont(l.font, 'normal');
 
   const leftCol = margin;
   const rightCol = margin + contentWidth / 2;
 
-  doc.text('Developer', leftCol, yPos);
-  doc.text('Platform', rightCol, yPos);
+  doc.text(l.t('pdf.developer'), leftCol, yPos);
+  doc.text(l.t('pdf.platform'), rightCol, yPos);
   yPos += 5;
 
   doc.setTextColor(...COLORS.text);
-  doc.setFont('helvetica', 'bold');
+  doc.setFont(l.font, 'bold');
   doc.text(developerName, leftCol, yPos);
-  doc.text('Apple App Store', rightCol, yPos);
+  doc.text(l.t('pdf.platformValue', { type: l.t(`reportType.${report.metadata.reportType}`) }), rightCol, yPos);
+
+  // Address and VAT ID under the developer name
+  const details = [
+    ...(options.address ?? '').split('\n'),
+    options.vatId ? l.t('pdf.vatId', { id: options.vatId }) : '',
+  ].map((line) => line.trim()).filter(Boolean);
+  if (details.length > 0) {
+    doc.setFontSize(9);
+    doc.setFont(l.font, 'normal');
+    for (const line of details) {
+      yPos += 4.5;
+      doc.text(line, leftCol, yPos);
+    }
+    doc.setFontSize(10);
+  }
   yPos += 8;
 
   doc.setTextColor(...COLORS.textSecondary);
-  doc.setFont('helvetica', 'normal');
-  doc.text('Reporting Period', leftCol, yPos);
-  doc.text('Generated', rightCol, yPos);
+  doc.setFont(l.font, 'normal');
+  doc.text(l.t('pdf.reportingPeriod'), leftCol, yPos);
+  doc.text(l.t('pdf.generated'), rightCol, yPos);
   yPos += 5;
 
   doc.setTextColor(...COLORS.text);
-  doc.setFont('helvetica', 'bold');
+  doc.setFont(l.font, 'bold');
 
-  const periodStart = formatDate(report.metadata.startDate);
-  const periodEnd = formatDate(report.metadata.endDate);
-  doc.text(`${periodStart} to ${periodEnd}`, leftCol, yPos);
-  doc.text(new Date().toISOString().split('T')[0], rightCol, yPos);
+  doc.text(formatPeriod(l, report.metadata.startDate, report.metadata.endDate), leftCol, yPos);
+  doc.text(l.date(new Date().toISOString().split('T')[0]), rightCol, yPos);
+
+  // Apple's fiscal month, and when Apple pays for it (financial reports only)
+  const fiscalLabel = getFiscalLabel(report.metadata.startDate, report.metadata.endDate);
+  if (fiscalLabel) {
+    const isFinancial = report.metadata.reportType === 'financial';
+    yPos += 8;
+    doc.setTextColor(...COLORS.textSecondary);
+    doc.setFont(l.font, 'normal');
+    doc.text(l.t('col.fiscalPeriod'), leftCol, yPos);
+    if (isFinancial) {
+      doc.text(l.t('col.expectedPayment'), rightCol, yPos);
+    }
+    yPos += 5;
+
+    doc.setTextColor(...COLORS.text);
+    doc.setFont(l.font, 'bold');
+    doc.text(fiscalLabel, leftCol, yPos);
+    if (isFinancial) {
+      doc.text(l.date(getExpectedPaymentDate(report.metadata.endDate)), rightCol, yPos);
+    }
+  }
   yPos += 12;
 
   return yPos;
@@ -137,27 +426,62 @@ function addHeader(
  */
 function addSummarySection(
   doc: jsPDF,
+  l: Localizer,
   yPos: number,
   margin: number,
-  report: ParsedReport
+  report: ParsedReport,
+  converted: ConvertedSummary | null
 ): number {
+  // Check if we need a new page
+  yPos = ensureSpace(doc, yPos, 67);
+
   doc.setFontSize(14);
   doc.setTextColor(...COLORS.text);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Summary', margin, yPos);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.summary'), margin, yPos);
   yPos += 8;
 
   // Currency summary table
-  const summaryData = report.summary.byCurrency.map((c) => [
-    c.currency,
-    c.totalQuantity.toString(),
-    formatCurrency(c.totalProceeds, c.currency),
-  ]);
+  const summaryData = report.summary.byCurrency.map((c, i) => {
+    const row = [
+      c.currency,
+      formatLocalNumber(c.totalQuantity, l.locale),
+      l.money(c.grossProceeds, c.currency),
+      l.money(c.returnProceeds, c.currency),
+      l.money(c.totalProceeds, c.currency),
+    ];
+    if (converted) {
+      row.push(formatConverted(l, converted.byCurrency[i].convertedProceeds, converted.baseCurrency));
+    }
+    return row;
+  });
 
-  autoTable(doc, {
+  const head = [l.t('col.currency'), l.t('col.netUnits'), l.t('col.grossSales'), l.t('col.returns'), l.t('col.netProceeds')];
+  if (converted) {
+    head.push(l.t('col.netIn', { currency: converted.baseCurrency }));
+  }
+
+  drawTable(doc, l, {
     startY: yPos,
-    head: [['Currency', 'Units Sold', 'Net Proceeds']],
+    head: [head],
     body: summaryData,
+    foot: converted
+      ? [[
+          l.t('col.totalIn', { currency: converted.baseCurrency }),
+          '',
+          l.money(converted.totalGross, converted.baseCurrency),
+          l.money(converted.totalReturns, converted.baseCurrency),
+          '',
+          l.money(converted.totalProceeds, converted.baseCurrency),
+        ]]
+      : undefined,
+    footStyles: {
+      fillColor: COLORS.background,
+      textColor: COLORS.text,
+      fontStyle: 'bold',
+      fontSize: 10,
+      halign: 'right',
+    },
     margin: { left: margin, right: margin },
     headStyles: {
       fillColor: COLORS.background,
@@ -173,53 +497,388 @@ function addSummarySection(
       fillColor: [255, 255, 255],
     },
     columnStyles: {
-      0: { cellWidth: 40 },
-      1: { cellWidth: 40, halign: 'center' },
-      2: { halign: 'right', fontStyle: 'bold' },
+      0: { cellWidth: converted ? 22 : 30, halign: 'left' },
+      1: { cellWidth: converted ? 20 : 25, halign: 'center' },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right', fontStyle: 'bold' },
+      5: { halign: 'right', fontStyle: 'bold' },
     },
   });
 
   yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
 
   // Total currencies note
+  const { totalReturns } = report.summary;
   doc.setFontSize(9);
   doc.setTextColor(...COLORS.textSecondary);
-  doc.setFont('helvetica', 'italic');
+  doc.setFont(l.font, 'italic');
   doc.text(
-    `${report.summary.byCurrency.length} ${report.summary.byCurrency.length !== 1 ? 'currencies' : 'currency'} • ${report.summary.totalTransactions} transaction${report.summary.totalTransactions !== 1 ? 's' : ''}`,
+    [
+      l.t('count.currencies', { count: report.summary.byCurrency.length }),
+      l.t('count.transactions', { count: report.summary.totalTransactions }),
+      l.t('count.returns', { count: totalReturns }),
+    ].join(' • '),
     margin,
     yPos
   );
+
+  if (converted && converted.missingRates.length > 0) {
+    yPos += 5;
+    doc.setTextColor(...COLORS.error);
+    doc.text(
+      l.t('summary.missingRates', { currencies: converted.missingRates.join(', '), base: converted.baseCurrency }),
+      margin,
+      yPos
+    );
+  }
   yPos += 10;
 
   return yPos;
 }
 
 /**
- * Add payout reconciliation explanation
+ * Add the list of source reports a merged statement was built from
+ */
+function addSourceReports(
+  doc: jsPDF,
+  l: Localizer,
+  yPos: number,
+  margin: number,
+  report: ParsedReport
+): number {
+  // Check if we need a new page
+  yPos = ensureSpace(doc, yPos, 67);
+
+  doc.setFontSize(14);
+  doc.setTextColor(...COLORS.text);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.sourceReports'), margin, yPos);
+  yPos += 8;
+
+  const sourceData = report.sources.map((s) => [
+    s.fileName || '—',
+    formatPeriod(l, s.startDate, s.endDate),
+    s.currencies.join(', '),
+    formatLocalNumber(s.transactionCount, l.locale),
+  ]);
+
+  drawTable(doc, l, {
+    startY: yPos,
+    head: [[l.t('col.file'), l.t('col.period'), l.t('col.currencies'), l.t('col.transactions')]],
+    body: sourceData,
+    margin: { left: margin, right: margin },
+    headStyles: {
+      fillColor: COLORS.background,
+      textColor: COLORS.textSecondary,
+      fontStyle: 'bold',
+      fontSize: 9,
+    },
+    bodyStyles: {
+      textColor: COLORS.text,
+      fontSize: 9,
+    },
+    columnStyles: {
+      1: { cellWidth: 45 },
+      3: { cellWidth: 25, halign: 'center' },
+    },
+  });
+
+  yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+  return yPos;
+}
+
+/**
+ * Add period-over-period changes by currency, country and product, and list
+ * countries and products that are new or have disappeared
+ */
+function addPeriodComparison(
+  doc: jsPDF,
+  l: Localizer,
+  yPos: number,
+  margin: number,
+  contentWidth: number,
+  comparison: PeriodComparison
+): number {
+  // Check if we need a new page
+  yPos = ensureSpace(doc, yPos, 77);
+
+  doc.setFontSize(14);
+  doc.setTextColor(...COLORS.text);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.comparison'), margin, yPos);
+  yPos += 6;
+
+  doc.setFontSize(9);
+  doc.setTextColor(...COLORS.textSecondary);
+  doc.setFont(l.font, 'normal');
+  doc.text(
+    l.t('comparison.intro', {
+      current: formatPeriod(l, comparison.current.startDate, comparison.current.endDate),
+      previous: formatPeriod(l, comparison.previous.startDate, comparison.previous.endDate),
+    }),
+    margin,
+    yPos
+  );
+  yPos += 6;
+
+  const groups: [string, ComparisonRow[]][] = [
+    [l.t('comparison.byCurrency'), comparison.byCurrency],
+    [l.t('comparison.byCountry'), comparison.byCountry],
+    [l.t('comparison.byProduct'), comparison.byProduct],
+  ];
+
+  const tableData: { cells: string[]; isHeader: boolean; row?: ComparisonRow }[] = [];
+  for (const [title, rows] of groups) {
+    tableData.push({ cells: [title, '', '', '', '', ''], isHeader: true });
+    for (const row of rows) {
+      tableData.push({
+        cells: [
+          row.label,
+          row.currency,
+          l.money(row.previousProceeds, row.currency),
+          l.money(row.currentProceeds, row.currency),
+          `${row.change > 0 ? '+' : ''}${l.money(row.change, row.currency)}`,
+          formatChangeStatus(l, row),
+        ],
+        isHeader: false,
+        row,
+      });
+    }
+  }
+
+  drawTable(doc, l, {
+    startY: yPos,
+    head: [[l.t('col.category'), l.t('col.currency'), l.t('col.previous'), l.t('col.current'), l.t('col.change'), '%']],
+    body: tableData.map((r) => r.cells),
+    margin: { left: margin, right: margin },
+    headStyles: {
+      fillColor: COLORS.background,
+      textColor: COLORS.textSecondary,
+      fontStyle: 'bold',
+      fontSize: 8,
+    },
+    bodyStyles: {
+      textColor: COLORS.text,
+      fontSize: 8,
+    },
+    columnStyles: {
+      0: { cellWidth: 50 },
+      1: { cellWidth: 16 },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right', fontStyle: 'bold' },
+      5: { halign: 'right', cellWidth: 18 },
+    },
+    didParseCell: (data) => {
+      if (data.section !== 'body') return;
+      const entry = tableData[data.row.index];
+      if (entry?.isHeader) {
+        data.cell.styles.fontStyle = 'bold';
+        data.cell.styles.fillColor = COLORS.background;
+      } else if (entry?.row && data.column.index >= 4 && entry.row.change !== 0) {
+        data.cell.styles.textColor = entry.row.change > 0 ? COLORS.success : COLORS.error;
+      }
+    },
+  });
+
+  yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 6;
+
+  // New and disappeared countries and products
+  const listed: [string, string[]][] = [
+    [l.t('comparison.newCountries'), listLabels(comparison.byCountry, 'new')],
+    [l.t('comparison.removedCountries'), listLabels(comparison.byCountry, 'removed')],
+    [l.t('comparison.newProducts'), listLabels(comparison.byProduct, 'new')],
+    [l.t('comparison.removedProducts'), listLabels(comparison.byProduct, 'removed')],
+  ];
+
+  doc.setFontSize(9);
+  for (const [title, labels] of listed) {
+    if (labels.length === 0) continue;
+
+    yPos = ensureSpace(doc, yPos, 27);
+
+    const lines = doc.splitTextToSize(`${title}: ${labels.join(', ')}`, contentWidth);
+    doc.setTextColor(...COLORS.textSecondary);
+    doc.setFont(l.font, 'normal');
+    doc.text(lines, margin, yPos);
+    yPos += lines.length * 4 + 2;
+  }
+
+  return yPos + 4;
+}
+
+/**
+ * Distinct labels of comparison rows with the given status
+ */
+function listLabels(rows: ComparisonRow[], status: ComparisonRow['status']): string[] {
+  return [...new Set(rows.filter((r) => r.status === status).map((r) => r.label))];
+}
+
+/**
+ * Add payout reconciliation: the deposit reconciliation when one was entered,
+ * otherwise the exchange rates used or a generic explanation
  */
 function addPayoutReconciliation(
   doc: jsPDF,
+  l: Localizer,
   yPos: number,
   margin: number,
-  contentWidth: number
+  contentWidth: number,
+  converted: ConvertedSummary | null,
+  exchangeRates: ExchangeRates | undefined,
+  payout: PayoutReconciliation | null
 ): number {
+  // Check if we need a new page
+  yPos = ensureSpace(doc, yPos, 67);
+
   doc.setFontSize(14);
   doc.setTextColor(...COLORS.text);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Payout Reconciliation', margin, yPos);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.payout'), margin, yPos);
   yPos += 8;
 
   doc.setFontSize(9);
   doc.setTextColor(...COLORS.textSecondary);
-  doc.setFont('helvetica', 'normal');
+  doc.setFont(l.font, 'normal');
 
-  const reconciliationText =
-    'Net proceeds were generated in multiple currencies. Apple converts all proceeds using internal exchange rates and remits a single consolidated payout to the developer\'s bank account. Exchange rates used by Apple are not disclosed in this report.';
+  const reconciliationText = payout
+    ? l.t('payout.depositIntro', { deposit: l.money(payout.depositAmount, payout.baseCurrency) })
+    : converted
+    ? l.t('payout.convertedIntro', { base: converted.baseCurrency })
+    : l.t('payout.defaultIntro');
 
   const lines = doc.splitTextToSize(reconciliationText, contentWidth);
   doc.text(lines, margin, yPos);
-  yPos += lines.length * 4 + 10;
+  yPos += lines.length * 4 + (converted ? 4 : 10);
+
+  if (payout) {
+    return addPayoutTables(doc, l, yPos, margin, payout);
+  }
+
+  if (!converted || !exchangeRates) {
+    return yPos;
+  }
+
+  const rateData = converted.byCurrency.map((c) => {
+    const source = exchangeRates.rates.find((r) => r.currency === c.currency)?.source;
+    return [
+      c.currency,
+      c.rate === null ? l.t('payout.notProvided') : `1 ${c.currency} = ${formatRateValue(l, c.rate)} ${converted.baseCurrency}`,
+      c.currency === converted.baseCurrency ? l.t('payout.baseCurrency') : source ? l.t(`rateSource.${source}`) : '—',
+      l.money(c.totalProceeds, c.currency),
+      formatConverted(l, c.convertedProceeds, converted.baseCurrency),
+    ];
+  });
+
+  drawTable(doc, l, {
+    startY: yPos,
+    head: [[l.t('col.currency'), l.t('col.rate'), l.t('col.source'), l.t('col.netProceeds'), l.t('col.netIn', { currency: converted.baseCurrency })]],
+    body: rateData,
+    margin: { left: margin, right: margin },
+    headStyles: {
+      fillColor: COLORS.background,
+      textColor: COLORS.textSecondary,
+      fontStyle: 'bold',
+      fontSize: 9,
+    },
+    bodyStyles: {
+      textColor: COLORS.text,
+      fontSize: 9,
+    },
+    columnStyles: {
+      0: { cellWidth: 22 },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+    },
+  });
+
+  yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+  return yPos;
+}
+
+/**
+ * Add the per-currency payout lines and the deposit reconciliation totals
+ */
+function addPayoutTables(
+  doc: jsPDF,
+  l: Localizer,
+  yPos: number,
+  margin: number,
+  payout: PayoutReconciliation
+): number {
+  const base = payout.baseCurrency;
+
+  drawTable(doc, l, {
+    startY: yPos,
+    head: [[l.t('col.currency'), l.t('col.netProceeds'), l.t('col.rateUsed'), l.t('col.expectedIn', { currency: base }), l.t('col.impliedRate')]],
+    body: payout.lines.map((line) => [
+      line.currency,
+      l.money(line.netProceeds, line.currency),
+      line.rate === null ? l.t('payout.notProvided') : formatRateValue(l, line.rate),
+      formatConverted(l, line.expectedAmount, base),
+      formatRateValue(l, line.impliedRate),
+    ]),
+    margin: { left: margin, right: margin },
+    headStyles: {
+      fillColor: COLORS.background,
+      textColor: COLORS.textSecondary,
+      fontStyle: 'bold',
+      fontSize: 9,
+    },
+    bodyStyles: {
+      textColor: COLORS.text,
+      fontSize: 9,
+    },
+    columnStyles: {
+      0: { cellWidth: 22 },
+      1: { halign: 'right' },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+    },
+  });
+
+  yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 4;
+
+  const totals: [string, string][] = [
+    [l.t('payout.expectedProceeds'), l.money(payout.expectedProceeds, base)],
+    [l.t('payout.withholdingTax'), l.money(-payout.withholdingTax, base)],
+    [l.t('payout.adjustments'), l.money(payout.adjustments, base)],
+    [l.t('payout.expectedDeposit'), l.money(payout.expectedDeposit, base)],
+    [l.t('payout.actualDeposit'), l.money(payout.depositAmount, base)],
+    [
+      l.t('payout.difference'),
+      payout.difference === null
+        ? l.t('payout.differenceUnknown')
+        : l.money(payout.difference, base),
+    ],
+  ];
+
+  drawTable(doc, l, {
+    startY: yPos,
+    body: totals,
+    margin: { left: margin, right: margin },
+    bodyStyles: {
+      textColor: COLORS.text,
+      fontSize: 9,
+    },
+    columnStyles: {
+      0: { cellWidth: 60, fontStyle: 'bold' },
+      1: { halign: 'right' },
+    },
+    didParseCell: (data) => {
+      if (data.row.index === totals.length - 1 && payout.difference !== null) {
+        data.cell.styles.textColor =
+          payout.difference === 0 ? COLORS.success : COLORS.error;
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
 
   return yPos;
 }
@@ -229,26 +888,44 @@ function addPayoutReconciliation(
  */
 function addCountryBreakdown(
   doc: jsPDF,
+  l: Localizer,
   yPos: number,
   margin: number,
-  report: ParsedReport
+  report: ParsedReport,
+  converted: ConvertedSummary | null
 ): number {
+  // Check if we need a new page
+  yPos = ensureSpace(doc, yPos, 67);
+
   doc.setFontSize(14);
   doc.setTextColor(...COLORS.text);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Country & Currency Breakdown', margin, yPos);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.countries'), margin, yPos);
   yPos += 8;
 
-  const countryData = report.summary.byCountry.map((c) => [
-    c.countryOfSale,
-    c.currency,
-    c.quantity.toString(),
-    formatCurrency(c.proceeds, c.currency),
-  ]);
+  const countryData = report.summary.byCountry.map((c, i) => {
+    const row = [
+      c.countryOfSale,
+      c.currency,
+      formatLocalNumber(c.quantity, l.locale),
+      l.money(c.grossProceeds, c.currency),
+      l.money(c.returnProceeds, c.currency),
+      l.money(c.proceeds, c.currency),
+    ];
+    if (converted) {
+      row.push(formatConverted(l, converted.byCountry[i].convertedProceeds, converted.baseCurrency));
+    }
+    return row;
+  });
 
-  autoTable(doc, {
+  const head = [l.t('col.country'), l.t('col.currency'), l.t('col.units'), l.t('col.grossSales'), l.t('col.returns'), l.t('col.netProceeds')];
+  if (converted) {
+    head.push(l.t('col.netIn', { currency: converted.baseCurrency }));
+  }
+
+  drawTable(doc, l, {
     startY: yPos,
-    head: [['Country', 'Currency', 'Units', 'Net Proceeds']],
+    head: [head],
     body: countryData,
     margin: { left: margin, right: margin },
     headStyles: {
@@ -262,10 +939,13 @@ function addCountryBreakdown(
       fontSize: 10,
     },
     columnStyles: {
-      0: { cellWidth: 35 },
-      1: { cellWidth: 30 },
-      2: { cellWidth: 25, halign: 'center' },
+      0: { cellWidth: converted ? 20 : 25 },
+      1: { cellWidth: converted ? 20 : 22 },
+      2: { cellWidth: converted ? 15 : 18, halign: 'center' },
       3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+      6: { halign: 'right' },
     },
   });
 
@@ -279,45 +959,59 @@ function addCountryBreakdown(
  */
 function addProductBreakdown(
   doc: jsPDF,
+  l: Localizer,
   yPos: number,
   margin: number,
-  report: ParsedReport
+  report: ParsedReport,
+  converted: ConvertedSummary | null
 ): number {
   // Check if we need a new page
-  if (yPos > 230) {
-    doc.addPage();
-    yPos = 20;
-  }
+  yPos = ensureSpace(doc, yPos, 67);
 
   doc.setFontSize(14);
   doc.setTextColor(...COLORS.text);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Product Breakdown', margin, yPos);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.products'), margin, yPos);
   yPos += 8;
 
   // Build table data with product headers and currency rows
-  const tableData: { content: string; isHeader: boolean }[][] = [];
-
-  for (const product of report.summary.byProduct) {
-    const unitLabel = product.quantity === 1 ? 'unit' : 'units';
-    // Product header row (spans both columns conceptually)
-    tableData.push([
-      { content: `${product.title} (${product.sku}) — ${product.quantity} ${unitLabel}`, isHeader: true },
-      { content: '', isHeader: true },
-    ]);
+  const tableData: { cells: string[]; isHeader: boolean }[] = [];
+
+  report.summary.byProduct.forEach((product, i) => {
+    const unitLabel = l.t('products.units', { count: product.quantity });
+    const returnLabel =
+      product.returnedQuantity > 0 ? l.t('products.returned', { count: product.returnedQuantity }) : '';
+    // Product header row (spans all columns conceptually), carrying the
+    // converted total when a base currency is set
+    const headerCells = [`${product.title} (${product.sku}) — ${unitLabel}${returnLabel}`, '', '', ''];
+    if (converted) {
+      headerCells.push(formatConverted(l, converted.byProduct[i].convertedProceeds, converted.baseCurrency));
+    }
+    tableData.push({ cells: headerCells, isHeader: true });
     // Currency rows
     for (const [currency, amount] of Object.entries(product.proceedsByCurrency)) {
-      tableData.push([
-        { content: currency, isHeader: false },
-        { content: amount.toFixed(2), isHeader: false },
-      ]);
+      const cells = [
+        currency,
+        formatPlainAmount(l, product.grossByCurrency[currency] || 0, currency),
+        formatPlainAmount(l, product.returnsByCurrency[currency] || 0, currency),
+        formatPlainAmount(l, amount, currency),
+      ];
+      if (converted) {
+        cells.push('');
+      }
+      tableData.push({ cells, isHeader: false });
     }
+  });
+
+  const head = [l.t('col.productCurrency'), l.t('col.grossSales'), l.t('col.returns'), l.t('col.netProceeds')];
+  if (converted) {
+    head.push(l.t('col.netIn', { currency: converted.baseCurrency }));
   }
 
-  autoTable(doc, {
+  drawTable(doc, l, {
     startY: yPos,
-    head: [['Product / Currency', 'Net Proceeds']],
-    body: tableData.map((row) => [row[0].content, row[1].content]),
+    head: [head],
+    body: tableData.map((row) => row.cells),
     margin: { left: margin, right: margin },
     headStyles: {
       fillColor: COLORS.background,
@@ -330,11 +1024,14 @@ function addProductBreakdown(
       fontSize: 10,
     },
     columnStyles: {
-      0: { cellWidth: 120 },
+      0: { cellWidth: converted ? 70 : 80 },
       1: { halign: 'right' },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
     },
     didParseCell: (data) => {
-      if (data.section === 'body' && tableData[data.row.index]?.[0]?.isHeader) {
+      if (data.section === 'body' && tableData[data.row.index]?.isHeader) {
         data.cell.styles.fontStyle = 'bold';
         data.cell.styles.fillColor = COLORS.background;
       }
@@ -347,34 +1044,629 @@ function addProductBreakdown(
 }
 
 /**
- * Add tax and accounting notice
+ * Add the revenue trend charts: proceeds over time, country share, top
+ * products and units against proceeds by product type, drawn as vector
+ * shapes
  */
-function addTaxNotice(
+function addRevenueCharts(
   doc: jsPDF,
+  l: Localizer,
   yPos: number,
   margin: number,
-  contentWidth: number
+  contentWidth: number,
+  trends: RevenueTrends
 ): number {
-  // Check if we need a new page
-  if (yPos > 240) {
-    doc.addPage();
-    yPos = 20;
+  yPos = ensureSpace(doc, yPos, 90);
+
+  doc.setFontSize(14);
+  doc.setTextColor(...COLORS.text);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.charts'), margin, yPos);
+  yPos += 6;
+
+  doc.setFontSize(9);
+  doc.setTextColor(...COLORS.textSecondary);
+  doc.setFont(l.font, 'normal');
+  doc.text(l.t('charts.currency', { currency: trends.currency }), margin, yPos);
+  if (trends.excluded > 0) {
+    yPos += 4.5;
+    doc.text(l.t('charts.excluded', { count: trends.excluded }), margin, yPos);
+  }
+  yPos += 8;
+
+  const label = (row: TrendShare, productType = false) => {
+    if (!row.key) return l.t('charts.other');
+    const key = `productType.${row.key}`;
+    return productType && isMessageKey(key) ? l.t(key) : row.label;
+  };
+  const share = (value: number) =>
+    new Intl.NumberFormat(getIntlLocale(l.locale), { style: 'percent', maximumFractionDigits: 1 }).format(value);
+
+  // Timeline
+  if (trends.timeline.length > 0) {
+    yPos = addChartTitle(doc, l, yPos, margin, l.t(trends.interval === 'day' ? 'charts.timelineDay' : 'charts.timelineWeek'), 55);
+    yPos = drawTimeline(doc, l, yPos, margin, contentWidth, trends);
   }
 
+  const maxProceeds = (rows: TrendShare[]) => Math.max(1, ...rows.map((r) => r.proceeds));
+  const countryMax = maxProceeds(trends.countries);
+  yPos = addChartTitle(doc, l, yPos, margin, l.t('charts.countries'), 20);
+  yPos = drawBarRows(doc, l, yPos, margin, contentWidth, trends.countries.map((r) => ({
+    label: label(r),
+    bars: [{ fraction: r.proceeds / countryMax, color: COLORS.primary }],
+    values: [`${l.money(r.proceeds, trends.currency)} (${share(r.proceedsShare)})`],
+  })));
+
+  const productMax = maxProceeds(trends.topProducts);
+  yPos = addChartTitle(doc, l, yPos, margin, l.t('charts.products'), 20);
+  yPos = drawBarRows(doc, l, yPos, margin, contentWidth, trends.topProducts.map((r) => ({
+    label: label(r),
+    bars: [{ fraction: r.proceeds / productMax, color: COLORS.primary }],
+    values: [`${l.money(r.proceeds, trends.currency)} (${share(r.proceedsShare)})`],
+  })));
+
+  yPos = addChartTitle(doc, l, yPos, margin, l.t('charts.unitsVsProceeds'), 20);
+  // Legend
+  doc.setFontSize(8);
+  doc.setTextColor(...COLORS.textSecondary);
+  for (const [i, [text, color]] of ([[l.t('col.units'), COLORS.accent], [l.t('col.proceeds'), COLORS.primary]] as const).entries()) {
+    const x = margin + i * 40;
+    doc.setFillColor(...color);
+    doc.rect(x, yPos - 2.5, 3, 3, 'F');
+    doc.text(text, x + 5, yPos);
+  }
+  yPos += 5;
+  yPos = drawBarRows(doc, l, yPos, margin, contentWidth, trends.productTypes.map((r) => ({
+    label: label(r, true),
+    bars: [
+      { fraction: r.unitShare, color: COLORS.accent },
+      { fraction: r.proceedsShare, color: COLORS.primary },
+    ],
+    values: [share(r.unitShare), share(r.proceedsShare)],
+  })));
+
+  return yPos + 6;
+}
+
+/**
+ * Add a chart heading, moving to a new page when the chart won't fit
+ */
+function addChartTitle(doc: jsPDF, l: Localizer, yPos: number, margin: number, title: string, space: number): number {
+  yPos = ensureSpace(doc, yPos, space + FOOTER_SPACE);
+  doc.setFontSize(10);
+  doc.setTextColor(...COLORS.text);
+  doc.setFont(l.font, 'bold');
+  doc.text(title, margin, yPos);
+  doc.setFont(l.font, 'normal');
+  return yPos + 5;
+}
+
+/**
+ * Column chart of net proceeds per day or week, 45 mm high
+ */
+function drawTimeline(
+  doc: jsPDF,
+  l: Localizer,
+  yPos: number,
+  margin: number,
+  contentWidth: number,
+  trends: RevenueTrends
+): number {
+  const height = 40;
+  const left = margin + 20;
+  const width = contentWidth - 20;
+  const points = trends.timeline;
+
+  const max = Math.max(0, ...points.map((p) => p.proceeds));
+  const min = Math.min(0, ...points.map((p) => p.proceeds));
+  const range = max - min || 1;
+  const y = (value: number) => yPos + ((max - value) / range) * height;
+  const slot = width / points.length;
+  const barWidth = Math.max(slot * 0.75, 0.2);
+
+  for (const [i, p] of points.entries()) {
+    const top = Math.min(y(p.proceeds), y(0));
+    doc.setFillColor(...(p.proceeds < 0 ? COLORS.error : COLORS.primary));
+    doc.rect(left + i * slot + (slot - barWidth) / 2, top, barWidth, Math.abs(y(p.proceeds) - y(0)), 'F');
+  }
+
+  doc.setDrawColor(...COLORS.border);
+  doc.setLineWidth(0.3);
+  doc.line(left, y(0), left + width, y(0));
+
+  doc.setFontSize(7);
+  doc.setTextColor(...COLORS.textSecondary);
+  for (const value of new Set([max, min, 0])) {
+    doc.text(formatCompactAmount(value, trends.currency, l.locale), left - 2, y(value) + 1, { align: 'right' });
+  }
+  const first = points[0];
+  const last = points[points.length - 1];
+  doc.text(l.date(first.date), left, yPos + height + 4);
+  if (points.length > 1) {
+    doc.text(l.date(last.date), left + width, yPos + height + 4, { align: 'right' });
+  }
+
+  return yPos + height + 10;
+}
+
+/**
+ * Horizontal bar rows: a label, one or more bars (as a fraction of the bar
+ * area) and a value for each bar
+ */
+function drawBarRows(
+  doc: jsPDF,
+  l: Localizer,
+  yPos: number,
+  margin: number,
+  contentWidth: number,
+  rows: { label: string; bars: { fraction: number; color: [number, number, number] }[]; values: string[] }[]
+): number {
+  const labelWidth = 50;
+  const valueWidth = 40;
+  const barArea = contentWidth - labelWidth - valueWidth;
+  const barHeight = 3;
+
+  doc.setFontSize(8);
+  for (const row of rows) {
+    const rowHeight = row.bars.length * (barHeight + 1) + 2;
+    yPos = ensureSpace(doc, yPos, rowHeight + FOOTER_SPACE);
+
+    doc.setTextColor(...COLORS.text);
+    const [labelLine] = doc.splitTextToSize(row.label, labelWidth - 2) as string[];
+    doc.text(labelLine, margin, yPos + 2.5);
+
+    for (const [i, bar] of row.bars.entries()) {
+      const barY = yPos + i * (barHeight + 1);
+      doc.setFillColor(...bar.color);
+      doc.rect(margin + labelWidth, barY, Math.max(0, Math.min(bar.fraction, 1)) * barArea, barHeight, 'F');
+      doc.setTextColor(...COLORS.textSecondary);
+      doc.text(row.values[i] ?? '', margin + contentWidth, barY + 2.5, { align: 'right' });
+    }
+    yPos += rowHeight;
+  }
+
+  return yPos + 6;
+}
+
+/**
+ * Add subscription breakdown: proceeds by product type, subscription stage
+ * and offer, each as a group of rows in one table
+ */
+function addSubscriptionBreakdown(
+  doc: jsPDF,
+  l: Localizer,
+  yPos: number,
+  margin: number,
+  report: ParsedReport
+): number {
+  const breakdown = analyzeSubscriptions(report);
+
+  // Check if we need a new page
+  yPos = ensureSpace(doc, yPos, 67);
+
+  doc.setFontSize(14);
+  doc.setTextColor(...COLORS.text);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.subscriptions'), margin, yPos);
+  yPos += 8;
+
+  const groups: [string, 'byProductType' | 'byRenewal' | 'byOffer'][] = [
+    [l.t('subscriptions.byProductType'), 'byProductType'],
+    [l.t('subscriptions.byOffer'), 'byOffer'],
+  ];
+  if (breakdown.hasSubscriptions) {
+    groups.splice(1, 0, [l.t('subscriptions.byRenewal'), 'byRenewal']);
+  }
+
+  const tableData: { cells: string[]; isHeader: boolean }[] = [];
+  for (const [title, dimension] of groups) {
+    tableData.push({ cells: [title, '', '', ''], isHeader: true });
+    for (const row of breakdown[dimension]) {
+      tableData.push({
+        cells: [translateSubscriptionLabel(dimension, row, l.t), row.currency, formatLocalNumber(row.quantity, l.locale), l.money(row.proceeds, row.currency)],
+        isHeader: false,
+      });
+    }
+  }
+
+  drawTable(doc, l, {
+    startY: yPos,
+    head: [[l.t('col.category'), l.t('col.currency'), l.t('col.units'), l.t('col.netProceeds')]],
+    body: tableData.map((row) => row.cells),
+    margin: { left: margin, right: margin },
+    headStyles: {
+      fillColor: COLORS.background,
+      textColor: COLORS.textSecondary,
+      fontStyle: 'bold',
+      fontSize: 9,
+    },
+    bodyStyles: {
+      textColor: COLORS.text,
+      fontSize: 10,
+    },
+    columnStyles: {
+      0: { cellWidth: 80 },
+      1: { cellWidth: 25 },
+      2: { cellWidth: 20, halign: 'center' },
+      3: { halign: 'right' },
+    },
+    didParseCell: (data) => {
+      if (data.section === 'body' && tableData[data.row.index]?.isHeader) {
+        data.cell.styles.fontStyle = 'bold';
+        data.cell.styles.fillColor = COLORS.background;
+      }
+    },
+  });
+
+  yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+  return yPos;
+}
+
+/**
+ * Add gross-to-net split: customer spend, estimated tax, Apple commission and
+ * net proceeds by currency, country and product, plus off-tier transactions
+ */
+function addCommissionBreakdown(
+  doc: jsPDF,
+  l: Localizer,
+  yPos: number,
+  margin: number,
+  contentWidth: number,
+  report: ParsedReport
+): number {
+  const analysis = analyzeCommission(report);
+
+  // Check if we need a new page
+  yPos = ensureSpace(doc, yPos, 77);
+
+  doc.setFontSize(14);
+  doc.setTextColor(...COLORS.text);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.commission'), margin, yPos);
+  yPos += 8;
+
+  doc.setFontSize(9);
+  doc.setTextColor(...COLORS.textSecondary);
+  doc.setFont(l.font, 'normal');
+
+  let introText = l.t('commission.intro');
+  if (analysis.excludedCount > 0) {
+    introText += ` ${l.t('commission.excluded', { count: analysis.excludedCount })}`;
+  }
+  const lines = doc.splitTextToSize(introText, contentWidth);
+  doc.text(lines, margin, yPos);
+  yPos += lines.length * 4 + 4;
+
+  yPos = addCommissionTable(doc, l, yPos, margin, l.t('col.currency'), analysis.byCurrency, false);
+  yPos = addCommissionTable(doc, l, yPos, margin, l.t('col.country'), analysis.byCountry, true);
+  yPos = addCommissionTable(doc, l, yPos, margin, l.t('col.product'), analysis.byProduct, true);
+
+  if (analysis.offTier.length === 0) {
+    return yPos;
+  }
+
+  // Off-tier transactions
+  yPos = ensureSpace(doc, yPos, 57);
+
+  doc.setFontSize(10);
+  doc.setTextColor(...COLORS.error);
+  doc.setFont(l.font, 'bold');
+  doc.text(
+    l.t('commission.offTier', { count: analysis.offTier.length }),
+    margin,
+    yPos
+  );
+  yPos += 4;
+
+  drawTable(doc, l, {
+    startY: yPos,
+    head: [[l.t('col.date'), l.t('col.country'), l.t('col.product'), l.t('col.price'), l.t('col.partnerShare'), l.t('col.rate')]],
+    body: analysis.offTier.map((c) => [
+      l.date(c.transaction.transactionDate),
+      c.transaction.countryOfSale,
+      c.transaction.title || c.transaction.sku,
+      l.money(c.transaction.customerPrice, c.transaction.customerCurrency),
+      l.money(c.transaction.partnerShare, c.transaction.partnerShareCurrency),
+      formatPercent(l, c.commissionRate),
+    ]),
+    margin: { left: margin, right: margin },
+    headStyles: {
+      fillColor: COLORS.background,
+      textColor: COLORS.textSecondary,
+      fontStyle: 'bold',
+      fontSize: 8,
+    },
+    bodyStyles: {
+      textColor: COLORS.text,
+      fontSize: 8,
+    },
+    columnStyles: {
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' },
+    },
+  });
+
+  yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+  return yPos;
+}
+
+/**
+ * Add one gross-to-net table
+ */
+function addCommissionTable(
+  doc: jsPDF,
+  l: Localizer,
+  yPos: number,
+  margin: number,
+  firstColumn: string,
+  rows: CommissionBreakdown[],
+  showCurrency: boolean
+): number {
+  const head = [firstColumn, l.t('col.customerSpend'), l.t('col.estTax'), l.t('col.commission'), l.t('col.netProceeds'), l.t('col.rate')];
+  if (showCurrency) {
+    head.splice(1, 0, l.t('col.currency'));
+  }
+
+  drawTable(doc, l, {
+    startY: yPos,
+    head: [head],
+    body: rows.map((r) => {
+      const row = [
+        r.label,
+        l.money(r.customerSpend, r.currency),
+        l.money(r.estimatedTax, r.currency),
+        l.money(r.commission, r.currency),
+        l.money(r.netProceeds, r.currency),
+        formatPercent(l, r.commissionRate),
+      ];
+      if (showCurrency) {
+        row.splice(1, 0, r.currency);
+      }
+      return row;
+    }),
+    margin: { left: margin, right: margin },
+    headStyles: {
+      fillColor: COLORS.background,
+      textColor: COLORS.textSecondary,
+      fontStyle: 'bold',
+      fontSize: 8,
+    },
+    bodyStyles: {
+      textColor: COLORS.text,
+      fontSize: 8,
+    },
+    columnStyles: showCurrency
+      ? {
+          0: { cellWidth: 40 },
+          1: { cellWidth: 16 },
+          2: { halign: 'right' },
+          3: { halign: 'right' },
+          4: { halign: 'right' },
+          5: { halign: 'right', fontStyle: 'bold' },
+          6: { halign: 'right', cellWidth: 16 },
+        }
+      : {
+          1: { halign: 'right' },
+          2: { halign: 'right' },
+          3: { halign: 'right' },
+          4: { halign: 'right', fontStyle: 'bold' },
+          5: { halign: 'right', cellWidth: 16 },
+        },
+  });
+
+  return (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 6;
+}
+
+/**
+ * Add reconciliation of parsed totals against Apple's country summary block
+ */
+function addReportIntegrity(
+  doc: jsPDF,
+  l: Localizer,
+  yPos: number,
+  margin: number,
+  contentWidth: number,
+  report: ParsedReport
+): number {
+  const { checks } = checkReportIntegrity(report);
+
+  // Check if we need a new page
+  yPos = ensureSpace(doc, yPos, 67);
+
+  doc.setFontSize(14);
+  doc.setTextColor(...COLORS.text);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.integrity'), margin, yPos);
+  yPos += 8;
+
+  const mismatches = checks.filter((c) => !c.matches).length;
+  let statusText: string;
+  if (checks.length === 0) {
+    statusText = l.t(report.metadata.reportType === 'sales' ? 'integrity.noSummarySales' : 'integrity.noSummary');
+  } else if (mismatches === 0) {
+    statusText = l.t('integrity.allMatch', { count: checks.length });
+  } else {
+    statusText = l.t('integrity.mismatches', { mismatches, count: checks.length });
+  }
+
+  doc.setFontSize(9);
+  doc.setTextColor(...(mismatches > 0 ? COLORS.error : COLORS.textSecondary));
+  doc.setFont(l.font, 'normal');
+  const lines = doc.splitTextToSize(statusText, contentWidth);
+  doc.text(lines, margin, yPos);
+  yPos += lines.length * 4 + 4;
+
+  if (checks.length === 0) {
+    return yPos + 6;
+  }
+
+  const checkData = checks.map((c) => [
+    c.countryOfSale,
+    c.currency,
+    `${formatLocalNumber(c.reportedQuantity, l.locale)} / ${formatLocalNumber(c.parsedQuantity, l.locale)}`,
+    l.money(c.reportedProceeds, c.currency),
+    l.money(c.parsedProceeds, c.currency),
+    c.matches ? l.t('integrity.ok') : l.t('integrity.mismatch'),
+  ]);
+
+  drawTable(doc, l, {
+    startY: yPos,
+    head: [[l.t('col.country'), l.t('col.currency'), l.t('col.unitsAppleParsed'), l.t('col.appleTotal'), l.t('col.parsedTotal'), l.t('col.status')]],
+    body: checkData,
+    margin: { left: margin, right: margin },
+    headStyles: {
+      fillColor: COLORS.background,
+      textColor: COLORS.textSecondary,
+      fontStyle: 'bold',
+      fontSize: 9,
+    },
+    bodyStyles: {
+      textColor: COLORS.text,
+      fontSize: 9,
+    },
+    columnStyles: {
+      0: { cellWidth: 20 },
+      1: { cellWidth: 20 },
+      2: { halign: 'center' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { cellWidth: 22, halign: 'center', fontStyle: 'bold' },
+    },
+    didParseCell: (data) => {
+      if (data.section === 'body' && data.column.index === 5) {
+        data.cell.styles.textColor = checks[data.row.index]?.matches
+          ? COLORS.success
+          : COLORS.error;
+      }
+    },
+  });
+
+  yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+  return yPos;
+}
+
+/**
+ * Add the transaction appendix: every transaction on a new page, one table
+ * per currency with a subtotal row
+ */
+function addTransactionAppendix(
+  doc: jsPDF,
+  l: Localizer,
+  margin: number,
+  report: ParsedReport
+): number {
+  doc.addPage();
+  let yPos = 20;
+
+  doc.setFontSize(14);
+  doc.setTextColor(...COLORS.text);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.transactions'), margin, yPos);
+  yPos += 8;
+
+  const byCurrency = new Map<string, Transaction[]>();
+  for (const tx of report.transactions) {
+    const group = byCurrency.get(tx.partnerShareCurrency) ?? [];
+    group.push(tx);
+    byCurrency.set(tx.partnerShareCurrency, group);
+  }
+
+  for (const currency of [...byCurrency.keys()].sort()) {
+    const transactions = byCurrency.get(currency)!
+      .slice()
+      .sort((a, b) => formatDate(a.transactionDate).localeCompare(formatDate(b.transactionDate)));
+    const quantity = transactions.reduce((sum, tx) => sum + tx.quantity, 0);
+    const proceeds = transactions.reduce((sum, tx) => sum + tx.extendedPartnerShare, 0);
+
+    // Keep the currency heading with at least a few rows
+    yPos = ensureSpace(doc, yPos, 47);
+
+    doc.setFontSize(11);
+    doc.setTextColor(...COLORS.text);
+    doc.setFont(l.font, 'bold');
+    doc.text(`${currency} · ${l.t('count.transactions', { count: transactions.length })}`, margin, yPos);
+    yPos += 4;
+
+    drawTable(doc, l, {
+      startY: yPos,
+      head: [[l.t('col.date'), l.t('col.country'), l.t('col.product'), l.t('col.sku'), l.t('col.type'), l.t('col.quantity'), l.t('col.proceeds')]],
+      body: transactions.map((tx) => [
+        l.date(tx.transactionDate),
+        tx.countryOfSale,
+        tx.title,
+        tx.sku,
+        tx.saleOrReturn === 'S' ? l.t('csv.sale') : l.t('csv.return'),
+        formatLocalNumber(tx.quantity, l.locale),
+        l.money(tx.extendedPartnerShare, currency),
+      ]),
+      foot: [[
+        { content: l.t('transactions.subtotal', { currency }), colSpan: 5 },
+        { content: formatLocalNumber(quantity, l.locale), styles: { halign: 'right' } },
+        { content: l.money(proceeds, currency), styles: { halign: 'right' } },
+      ]],
+      showFoot: 'lastPage',
+      margin: { left: margin, right: margin },
+      headStyles: {
+        fillColor: COLORS.background,
+        textColor: COLORS.textSecondary,
+        fontStyle: 'bold',
+        fontSize: 8,
+      },
+      bodyStyles: {
+        textColor: COLORS.text,
+        fontSize: 8,
+      },
+      footStyles: {
+        fillColor: COLORS.background,
+        textColor: COLORS.text,
+        fontStyle: 'bold',
+        fontSize: 8,
+      },
+      columnStyles: {
+        0: { cellWidth: 22 },
+        1: { cellWidth: 16 },
+        3: { cellWidth: 30 },
+        4: { cellWidth: 18 },
+        5: { cellWidth: 15, halign: 'right' },
+        6: { cellWidth: 26, halign: 'right' },
+      },
+    });
+
+    yPos = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+  }
+
+  return yPos;
+}
+
+/**
+ * Add tax and accounting notice
+ */
+function addTaxNotice(
+  doc: jsPDF,
+  l: Localizer,
+  yPos: number,
+  margin: number,
+  contentWidth: number,
+  text?: string
+): number {
+  // Check if we need a new page
+  yPos = ensureSpace(doc, yPos, 57);
+
   doc.setFontSize(12);
   doc.setTextColor(...COLORS.text);
-  doc.setFont('helvetica', 'bold');
-  doc.text('Tax Handling Notice', margin, yPos);
+  doc.setFont(l.font, 'bold');
+  doc.text(l.t('section.taxNotice'), margin, yPos);
   yPos += 6;
 
   doc.setFontSize(9);
   doc.setTextColor(...COLORS.textSecondary);
-  doc.setFont('helvetica', 'normal');
+  doc.setFont(l.font, 'normal');
 
-  const taxText =
-    'Apple acts as Merchant of Record for App Store transactions and is responsible for the collection and remittance of applicable indirect taxes (including VAT, GST, and Sales Tax). Amounts shown represent net proceeds payable to the developer, as reported by Apple.';
-
-  const lines = doc.splitTextToSize(taxText, contentWidth);
+  const lines = doc.splitTextToSize(text || l.t('notice.tax'), contentWidth);
   doc.text(lines, margin, yPos);
   yPos += lines.length * 4 + 10;
 
@@ -386,39 +1678,222 @@ function addTaxNotice(
  */
 function addDisclaimer(
   doc: jsPDF,
+  l: Localizer,
   yPos: number,
   margin: number,
-  contentWidth: number
-): void {
+  contentWidth: number,
+  text?: string
+): number {
   // Check if we need a new page
-  if (yPos > 260) {
-    doc.addPage();
-    yPos = 20;
-  }
+  yPos = ensureSpace(doc, yPos, 37);
 
   doc.setFontSize(8);
   doc.setTextColor(...COLORS.textSecondary);
-  doc.setFont('helvetica', 'italic');
+  doc.setFont(l.font, 'italic');
 
-  const disclaimerText =
-    'This document is a sales statement generated from Apple App Store financial reports. It is not an invoice issued by Apple Inc. This tool does not calculate taxes. Generated by AppStore Ledger (appstoreledger.dev).';
-
-  const lines = doc.splitTextToSize(disclaimerText, contentWidth);
+  const lines = doc.splitTextToSize(text || l.t('notice.disclaimer'), contentWidth);
   doc.text(lines, margin, yPos);
+  yPos += lines.length * 3.5 + 10;
+
+  return yPos;
+}
+
+/**
+ * Draw the footer text and page numbers on every page
+ */
+function addPageFooters(
+  doc: jsPDF,
+  l: Localizer,
+  margin: number,
+  contentWidth: number,
+  footer: string | undefined,
+  pageNumbers: boolean
+): void {
+  const pages = doc.getNumberOfPages();
+  const y = doc.internal.pageSize.getHeight() - 10;
+
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(...COLORS.textSecondary);
+    doc.setFont(l.font, 'normal');
+
+    if (footer) {
+      // One line only; leave room for the page number
+      const [line] = doc.splitTextToSize(footer, pageNumbers ? contentWidth - 30 : contentWidth);
+      doc.text(line, margin, y);
+    }
+    if (pageNumbers) {
+      doc.text(l.t('pdf.page', { page, pages }), margin + contentWidth, y, { align: 'right' });
+    }
+  }
+}
+
+/**
+ * Start a new page when less than `space` mm is left below `yPos`
+ */
+function ensureSpace(doc: jsPDF, yPos: number, space: number): number {
+  if (yPos > doc.internal.pageSize.getHeight() - space) {
+    doc.addPage();
+    return 20;
+  }
+  return yPos;
+}
+
+/**
+ * Parse a '#rrggbb' or '#rgb' color
+ */
+function parseHexColor(value: string): [number, number, number] {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid accent color "${value}"; use a hex value such as #0066ff`);
+  }
+  const hex = match[1].length === 3
+    ? match[1].split('').map((c) => c + c).join('')
+    : match[1];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+/**
+ * Draw a table in the statement's font
+ */
+function drawTable(
+  doc: jsPDF,
+  l: Localizer,
+  options: Omit<UserOptions, 'margin'> & { margin: { left: number; right: number } }
+): void {
+  autoTable(doc, {
+    ...options,
+    margin: { bottom: FOOTER_SPACE, ...options.margin },
+    styles: { font: l.font, ...options.styles },
+  });
+}
+
+/**
+ * Embed a TrueType font under every style the statement uses. jsPDF only
+ * writes the glyphs that are drawn, so the file stays small.
+ */
+function registerFont(doc: jsPDF, font: PDFFont): void {
+  const normalFile = `${font.name}-Regular.ttf`;
+  const boldFile = font.bold ? `${font.name}-Bold.ttf` : normalFile;
+  doc.addFileToVFS(normalFile, toBase64(font.normal));
+  if (font.bold) {
+    doc.addFileToVFS(boldFile, toBase64(font.bold));
+  }
+  doc.addFont(normalFile, font.name, 'normal');
+  doc.addFont(normalFile, font.name, 'italic');
+  doc.addFont(boldFile, font.name, 'bold');
+  doc.addFont(boldFile, font.name, 'bolditalic');
+}
+
+/**
+ * Base64-encode bytes in chunks, staying under the engine's argument limit
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Format a converted amount, or a dash when no rate was available
+ */
+function formatConverted(l: Localizer, amount: number | null, baseCurrency: string): string {
+  return amount === null ? '—' : l.money(amount, baseCurrency);
+}
+
+/**
+ * Format an amount without a currency symbol, e.g. "1,234.50" or "1.234,50"
+ */
+function formatPlainAmount(l: Localizer, amount: MinorUnits, currency: string): string {
+  const precision = getCurrencyPrecision(currency);
+  return formatLocalNumber(toMajor(amount, currency), l.locale, {
+    minimumFractionDigits: precision,
+    maximumFractionDigits: precision,
+  });
+}
+
+/**
+ * Format an exchange rate to four decimals, or a dash when unknown
+ */
+function formatRateValue(l: Localizer, rate: number | null): string {
+  return rate === null
+    ? '—'
+    : formatLocalNumber(rate, l.locale, { minimumFractionDigits: 4, maximumFractionDigits: 4 });
+}
+
+/**
+ * Format a reporting period, e.g. "01/01/2025 to 01/31/2025"
+ */
+function formatPeriod(l: Localizer, startDate: string, endDate: string): string {
+  return l.t('period.range', { start: l.date(startDate), end: l.date(endDate) });
+}
+
+/**
+ * Describe a comparison row's percentage change, or whether it is new or gone
+ */
+function formatChangeStatus(l: Localizer, row: ComparisonRow): string {
+  if (row.status === 'new') return l.t('status.new');
+  if (row.status === 'removed') return l.t('status.gone');
+  if (row.percentChange === null) return '—';
+  return formatLocalNumber(row.percentChange, l.locale, {
+    style: 'percent',
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+    signDisplay: 'exceptZero',
+  });
+}
+
+/**
+ * Format a rate as a percentage, or a dash when unknown
+ */
+function formatPercent(l: Localizer, rate: number | null): string {
+  return rate === null
+    ? '—'
+    : formatLocalNumber(rate, l.locale, { style: 'percent', minimumFractionDigits: 1, maximumFractionDigits: 1 });
 }
 
 /**
- * Generate and download the PDF
+ * Generate the PDF statement as bytes, ready to write to disk or upload
  */
-export function downloadPDF(
+export function generatePDFBytes(
   report: ParsedReport,
   options: PDFOptions = {}
-): void {
-  const doc = generatePDF(report, options);
+): Uint8Array {
+  return new Uint8Array(generatePDF(report, options).output('arraybuffer'));
+}
 
+/**
+ * Whether a statement has text Helvetica can't show, such as a Japanese
+ * product title or a Cyrillic developer name, and needs `PDFOptions.font`
+ */
+export function needsUnicodeFont(report: ParsedReport, options: PDFOptions = {}): boolean {
+  if (options.locale === 'ja') {
+    return true;
+  }
+  const texts = [
+    options.developerNameOverride ?? '',
+    options.title ?? '',
+    options.address ?? '',
+    options.vatId ?? '',
+    options.taxNotice ?? '',
+    options.disclaimer ?? '',
+    options.footer ?? '',
+    report.metadata.vendorName,
+    ...report.summary.byProduct.map((p) => p.title),
+    ...report.sources.map((s) => s.fileName),
+    ...(options.comparison?.byProduct.map((r) => r.label) ?? []),
+  ];
+  return texts.some((text) => !HELVETICA_TEXT.test(text));
+}
+
+/**
+ * File name for a report's PDF statement
+ */
+export function getPDFFilename(report: ParsedReport): string {
   const periodStart = formatDate(report.metadata.startDate);
   const periodEnd = formatDate(report.metadata.endDate);
-  const filename = `AppStore_Statement_${periodStart}_${periodEnd}.pdf`;
-
-  doc.save(filename);
+  return `AppStore_Statement_${periodStart}_${periodEnd}.pdf`;
 }
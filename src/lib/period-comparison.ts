@@ -0,0 +1,141 @@
+/**
+ * Period Comparison
+ * Diffs the currency, country and product breakdowns of two reports and
+ * flags rows that are new or have disappeared
+ */
+
+import type {
+  ParsedReport,
+  ComparisonRow,
+  PeriodComparison,
+  MinorUnits,
+} from './types';
+
+/** Quantity and proceeds of one breakdown row in one period */
+interface PeriodValue {
+  key: string;
+  label: string;
+  currency: string;
+  quantity: number;
+  proceeds: MinorUnits;
+}
+
+/**
+ * Pair up rows by key and currency and work out the change
+ */
+function compareRows(previous: PeriodValue[], current: PeriodValue[]): ComparisonRow[] {
+  const rows = new Map<string, ComparisonRow>();
+  const getRow = (value: PeriodValue) => {
+    const mapKey = `${value.key}-${value.currency}`;
+    let row = rows.get(mapKey);
+    if (!row) {
+      row = {
+        key: value.key,
+        label: value.label,
+        currency: value.currency,
+        previousQuantity: 0,
+        currentQuantity: 0,
+        previousProceeds: 0,
+        currentProceeds: 0,
+        change: 0,
+        percentChange: null,
+        status: 'unchanged',
+      };
+      rows.set(mapKey, row);
+    }
+    return row;
+  };
+
+  const inPrevious = new Set<ComparisonRow>();
+  const inCurrent = new Set<ComparisonRow>();
+
+  for (const value of previous) {
+    const row = getRow(value);
+    row.previousQuantity += value.quantity;
+    row.previousProceeds += value.proceeds;
+    inPrevious.add(row);
+  }
+
+  for (const value of current) {
+    const row = getRow(value);
+    // Prefer the current label, e.g. when an app was renamed
+    row.label = value.label;
+    row.currentQuantity += value.quantity;
+    row.currentProceeds += value.proceeds;
+    inCurrent.add(row);
+  }
+
+  for (const row of rows.values()) {
+    row.change = row.currentProceeds - row.previousProceeds;
+    row.percentChange = row.previousProceeds !== 0
+      ? row.change / Math.abs(row.previousProceeds)
+      : null;
+
+    if (!inPrevious.has(row)) {
+      row.status = 'new';
+    } else if (!inCurrent.has(row)) {
+      row.status = 'removed';
+    } else if (row.change !== 0 || row.currentQuantity !== row.previousQuantity) {
+      row.status = 'changed';
+    }
+  }
+
+  return Array.from(rows.values()).sort(
+    (a, b) => a.label.localeCompare(b.label) || a.currency.localeCompare(b.currency)
+  );
+}
+
+function currencyValues(report: ParsedReport): PeriodValue[] {
+  return report.summary.byCurrency.map((c) => ({
+    key: c.currency,
+    label: c.currency,
+    currency: c.currency,
+    quantity: c.totalQuantity,
+    proceeds: c.totalProceeds,
+  }));
+}
+
+function countryValues(report: ParsedReport): PeriodValue[] {
+  return report.summary.byCountry.map((c) => ({
+    key: c.countryOfSale,
+    label: c.countryOfSale,
+    currency: c.currency,
+    quantity: c.quantity,
+    proceeds: c.proceeds,
+  }));
+}
+
+/**
+ * Products are compared per currency. The product breakdown only carries a
+ * total unit count, so units are taken from the transactions instead.
+ */
+function productValues(report: ParsedReport): PeriodValue[] {
+  const units = new Map<string, number>();
+  for (const t of report.transactions) {
+    const mapKey = `${t.sku}-${t.partnerShareCurrency}`;
+    units.set(mapKey, (units.get(mapKey) ?? 0) + t.quantity);
+  }
+
+  return report.summary.byProduct.flatMap((p) =>
+    Object.entries(p.proceedsByCurrency).map(([currency, proceeds]) => ({
+      key: p.sku,
+      label: p.title || p.sku,
+      currency,
+      quantity: units.get(`${p.sku}-${currency}`) ?? 0,
+      proceeds,
+    }))
+  );
+}
+
+/**
+ * Compare a report against an earlier period
+ */
+export function comparePeriods(previous: ParsedReport, current: ParsedReport): PeriodComparison {
+  return {
+    previous: previous.metadata,
+    current: current.metadata,
+    byCurrency: compareRows(currencyValues(previous), currencyValues(current)),
+    byCountry: compareRows(countryValues(previous), countryValues(current)),
+    byProduct: compareRows(productValues(previous), productValues(current)),
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Report Files
+ * Unpacks report downloads into text files: plain reports, gzipped reports
+ * (App Store Connect and Reporter hand out .txt.gz) and ZIP archives of
+ * either, recognised by their magic bytes rather than their extension
+ */
+
+import { gunzipSync, strFromU8, unzipSync } from 'fflate';
+import type { ExtractedFiles } from './types';
+
+/** How a file's bytes are packed */
+export type FileFormat = 'gzip' | 'zip' | 'text' | 'binary';
+
+/** Archives nested deeper than this are rejected */
+const MAX_ARCHIVE_DEPTH = 3;
+
+/**
+ * Detect gzip and ZIP by their magic bytes. Anything else with a NUL byte
+ * near the start is treated as binary.
+ */
+export function detectFileFormat(bytes: Uint8Array): FileFormat {
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    return 'gzip';
+  }
+  // Local file header, or the end record of an empty archive
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && (bytes[2] === 0x03 || bytes[2] === 0x05)) {
+    return 'zip';
+  }
+  return bytes.subarray(0, 1024).includes(0) ? 'binary' : 'text';
+}
+
+/**
+ * Take every text file out of an uploaded file, decompressing gzip and
+ * unpacking ZIP archives (including archives of gzipped reports)
+ */
+export function extractReportFiles(name: string, bytes: Uint8Array): ExtractedFiles {
+  const result: ExtractedFiles = { files: [], rejected: [] };
+  extractInto(result, name, bytes, 0);
+  return result;
+}
+
+/**
+ * Add a file, or the contents of an archive, to the result
+ */
+function extractInto(result: ExtractedFiles, name: string, bytes: Uint8Array, depth: number): void {
+  const format = detectFileFormat(bytes);
+
+  if (format === 'text') {
+    result.files.push({ name, content: strFromU8(bytes) });
+    return;
+  }
+  if (format === 'binary') {
+    result.rejected.push({ name, reason: 'Not a text report' });
+    return;
+  }
+  if (depth >= MAX_ARCHIVE_DEPTH) {
+    result.rejected.push({ name, reason: 'Archive is nested too deeply' });
+    return;
+  }
+
+  let entries: [string, Uint8Array][];
+  try {
+    entries = format === 'gzip'
+      ? [[name.replace(/\.gz$/i, ''), gunzipSync(bytes)]]
+      : Object.entries(unzipSync(bytes, { filter: (file) => !isArchiveMetadata(file.name) }))
+          .filter(([entryName]) => !entryName.endsWith('/'))
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([entryName, data]) => [`${name}/${entryName}`, data]);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    result.rejected.push({ name, reason: `Corrupt ${format === 'gzip' ? 'gzip' : 'ZIP'} file (${message})` });
+    return;
+  }
+
+  if (entries.length === 0) {
+    result.rejected.push({ name, reason: 'Archive is empty' });
+  }
+  for (const [entryName, data] of entries) {
+    extractInto(result, entryName, data, depth + 1);
+  }
+}
+
+/**
+ * Folders and files macOS adds to archives, which are never reports
+ */
+function isArchiveMetadata(path: string): boolean {
+  return path.startsWith('__MACOSX/') || /(^|\/)(\.DS_Store|\._[^/]*)$/.test(path);
+}
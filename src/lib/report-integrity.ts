@@ -0,0 +1,80 @@
+/**
+ * Report Integrity
+ * Reconciles parsed transaction totals against the per-country summary
+ * block Apple includes at the bottom of each financial report
+ */
+
+import type {
+  ParsedReport,
+  CountryIntegrityCheck,
+  IntegrityReport,
+} from './types';
+import { formatAmount } from './money';
+
+/**
+ * Compare Apple's reported country totals with the parsed country breakdown
+ */
+export function checkReportIntegrity(report: ParsedReport): IntegrityReport {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!report.reportedSummary) {
+    warnings.push(
+      report.metadata.reportType === 'sales'
+        ? 'Sales and Trends reports include no summary block; totals could not be verified against Apple\'s figures'
+        : 'No Country Of Sale summary block found; totals could not be verified against Apple\'s figures'
+    );
+    return { checks: [], validation: { valid: true, errors, warnings } };
+  }
+
+  const checks = new Map<string, CountryIntegrityCheck>();
+  const getCheck = (countryOfSale: string, currency: string) => {
+    const key = `${countryOfSale}-${currency}`;
+    let check = checks.get(key);
+    if (!check) {
+      check = {
+        countryOfSale,
+        currency,
+        reportedQuantity: 0,
+        parsedQuantity: 0,
+        reportedProceeds: 0,
+        parsedProceeds: 0,
+        matches: false,
+      };
+      checks.set(key, check);
+    }
+    return check;
+  };
+
+  // Merged reports repeat country rows once per source
+  for (const row of report.reportedSummary) {
+    const check = getCheck(row.countryOfSale, row.currency);
+    check.reportedQuantity += row.quantity;
+    check.reportedProceeds += row.extendedPartnerShare;
+  }
+
+  for (const c of report.summary.byCountry) {
+    const check = getCheck(c.countryOfSale, c.currency);
+    check.parsedQuantity += c.quantity;
+    check.parsedProceeds += c.proceeds;
+  }
+
+  for (const check of checks.values()) {
+    const proceedsDiff = check.parsedProceeds - check.reportedProceeds;
+    check.matches =
+      check.parsedQuantity === check.reportedQuantity && proceedsDiff === 0;
+
+    if (!check.matches) {
+      warnings.push(
+        `${check.countryOfSale} (${check.currency}): Apple reports ${check.reportedQuantity} units / ${formatAmount(check.reportedProceeds, check.currency)}, parsed ${check.parsedQuantity} units / ${formatAmount(check.parsedProceeds, check.currency)} (difference ${formatAmount(proceedsDiff, check.currency)})`
+      );
+    }
+  }
+
+  return {
+    checks: Array.from(checks.values()).sort((a, b) =>
+      a.countryOfSale.localeCompare(b.countryOfSale)
+    ),
+    validation: { valid: errors.length === 0, errors, warnings },
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Report Library
+ * Keeps parsed reports in the browser's IndexedDB so earlier periods can be
+ * reopened, re-exported or deleted without the original files. Nothing is
+ * sent anywhere; clearing site data removes the library.
+ */
+
+import { formatDate } from './parser';
+import type { ParsedReport, StoredReport } from './types';
+
+const DB_NAME = 'appleledger';
+const DB_VERSION = 1;
+const STORE_NAME = 'reports';
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and on first use create) the library database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('This browser does not support IndexedDB'));
+  }
+
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    dbPromise = promisify(request).catch((err) => {
+      // Allow a later call to retry, e.g. after the user grants storage
+      dbPromise = null;
+      throw err;
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Run a request against the reports store
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  return promisify(run(store));
+}
+
+/**
+ * Library key for a report: its source fingerprints in a stable order
+ */
+export function getReportId(report: ParsedReport): string {
+  return report.sources
+    .map((s) => s.fingerprint)
+    .sort()
+    .join('+');
+}
+
+/**
+ * Save a report, replacing any earlier copy built from the same files
+ */
+export async function saveReport(report: ParsedReport): Promise<StoredReport> {
+  const stored: StoredReport = { id: getReportId(report), savedAt: new Date().toISOString(), report };
+  await withStore('readwrite', (store) => store.put(stored));
+  return stored;
+}
+
+/**
+ * List saved reports, most recent period first
+ */
+export async function listReports(): Promise<StoredReport[]> {
+  const stored = await withStore<StoredReport[]>('readonly', (store) => store.getAll());
+  return stored.sort(
+    (a, b) =>
+      formatDate(b.report.metadata.endDate).localeCompare(formatDate(a.report.metadata.endDate)) ||
+      b.savedAt.localeCompare(a.savedAt)
+  );
+}
+
+/**
+ * Load a single saved report
+ */
+export async function getReport(id: string): Promise<StoredReport | null> {
+  const stored = await withStore<StoredReport | undefined>('readonly', (store) => store.get(id));
+  return stored ?? null;
+}
+
+/**
+ * Remove a report from the library
+ */
+export async function deleteReport(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
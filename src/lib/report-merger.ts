@@ -0,0 +1,102 @@
+/**
+ * Report Merger
+ * Combines several parsed financial reports (one per region per fiscal
+ * month) into a single statement
+ */
+
+import type { ParsedReport, ReportSource, MergeResult } from './types';
+import { buildSummary, formatDate } from './parser';
+
+/**
+ * Pick the earliest or latest of a set of report dates
+ * (compared in ISO form so MM/DD/YYYY sorts correctly)
+ */
+function pickDate(dates: string[], pick: 'earliest' | 'latest'): string {
+  const sorted = dates
+    .filter(Boolean)
+    .sort((a, b) => formatDate(a).localeCompare(formatDate(b)));
+  return (pick === 'earliest' ? sorted[0] : sorted[sorted.length - 1]) ?? '';
+}
+
+/**
+ * Merge parsed reports into one combined report.
+ * Reports whose content fingerprint was already seen are skipped and
+ * returned as duplicates.
+ */
+export function mergeReports(reports: ParsedReport[]): MergeResult {
+  if (reports.length === 0) {
+    throw new Error('No reports to merge');
+  }
+
+  // Sales and Trends figures overlap the financial reports they precede
+  const reportType = reports[0].metadata.reportType;
+  if (reports.some((r) => r.metadata.reportType !== reportType)) {
+    throw new Error('Cannot combine Sales and Trends reports with financial reports in one statement');
+  }
+
+  const seen = new Set<string>();
+  const sources: ReportSource[] = [];
+  const duplicates: ReportSource[] = [];
+  const included: ParsedReport[] = [];
+
+  // Chronological order keeps the transaction list readable
+  const ordered = [...reports].sort((a, b) =>
+    formatDate(a.metadata.startDate).localeCompare(formatDate(b.metadata.startDate))
+  );
+
+  for (const report of ordered) {
+    const isDuplicate = report.sources.some((s) => seen.has(s.fingerprint));
+    if (isDuplicate) {
+      duplicates.push(...report.sources);
+      continue;
+    }
+
+    for (const source of report.sources) {
+      seen.add(source.fingerprint);
+      sources.push(source);
+    }
+    included.push(report);
+  }
+
+  const transactions = included.flatMap((r) => r.transactions);
+  const vendorNames = [...new Set(included.map((r) => r.metadata.vendorName).filter(Boolean))];
+
+  return {
+    report: {
+      metadata: {
+        reportType,
+        vendorName: vendorNames.join(', '),
+        startDate: pickDate(included.map((r) => r.metadata.startDate), 'earliest'),
+        endDate: pickDate(included.map((r) => r.metadata.endDate), 'latest'),
+      },
+      transactions,
+      summary: buildSummary(transactions),
+      reportedSummary: included.every((r) => r.reportedSummary)
+        ? included.flatMap((r) => r.reportedSummary ?? [])
+        : null,
+      sources,
+      diagnostics: included.flatMap((r) => r.diagnostics),
+    },
+    duplicates,
+  };
+}
+
+/**
+ * Split reports into one merged report per reporting period and report type
+ * (regional reports for the same fiscal month are combined, Sales and Trends
+ * reports are kept apart from financial ones), oldest first
+ */
+export function splitByPeriod(reports: ParsedReport[]): ParsedReport[] {
+  const groups = new Map<string, ParsedReport[]>();
+
+  for (const report of reports) {
+    const key = `${formatDate(report.metadata.startDate)}_${formatDate(report.metadata.endDate)}_${report.metadata.reportType}`;
+    const group = groups.get(key) ?? [];
+    group.push(report);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, group]) => mergeReports(group).report);
+}
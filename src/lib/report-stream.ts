@@ -0,0 +1,120 @@
+/**
+ * Report Stream
+ * Reads uploaded report files a chunk at a time so very large exports never
+ * sit in memory as one string. Works wherever Blob streams exist: the parse
+ * worker, the main thread and Node.
+ */
+
+import { createReportParser, detectDelimiter, parseAppleReport, validateReport } from './parser';
+import { detectFileFormat, extractReportFiles } from './report-files';
+import type { LoadedReports, LoadProgress, ParsedReport } from './types';
+
+/** Characters read before validating; plenty for the metadata and header lines */
+const VALIDATION_PREFIX = 64 * 1024;
+
+/**
+ * Validate and parse uploaded files. Plain reports are streamed; gzip and
+ * ZIP archives are unpacked first. A file that isn't a valid report is
+ * rejected with the reason rather than failing the whole upload.
+ */
+export async function loadReportFiles(
+  files: (Blob & { name: string })[],
+  onProgress?: (progress: LoadProgress) => void
+): Promise<LoadedReports> {
+  const result: LoadedReports = { reports: [], warnings: [], rejected: [] };
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  let bytesDone = 0;
+
+  for (const file of files) {
+    const progress = (bytesRead: number) =>
+      onProgress?.({ fileName: file.name, bytesRead: bytesDone + bytesRead, totalBytes });
+    progress(0);
+
+    try {
+      const format = detectFileFormat(new Uint8Array(await file.slice(0, 1024).arrayBuffer()));
+      if (format === 'text') {
+        const { report, warnings } = await streamReport(file, file.name, progress);
+        result.reports.push(report);
+        result.warnings.push(...warnings.map((w) => files.length > 1 ? `${file.name}: ${w}` : w));
+      } else if (format === 'binary') {
+        result.rejected.push({ name: file.name, reason: 'Not a text report' });
+      } else {
+        const extracted = extractReportFiles(file.name, new Uint8Array(await file.arrayBuffer()));
+        result.rejected.push(...extracted.rejected);
+        for (const { name, content } of extracted.files) {
+          try {
+            const warnings = checkReport(content);
+            result.reports.push(parseAppleReport(content, name));
+            result.warnings.push(...warnings.map((w) => `${name}: ${w}`));
+          } catch (err) {
+            result.rejected.push({ name, reason: err instanceof Error ? err.message : String(err) });
+          }
+        }
+      }
+    } catch (err) {
+      result.rejected.push({ name: file.name, reason: err instanceof Error ? err.message : String(err) });
+    }
+
+    bytesDone += file.size;
+    progress(0);
+  }
+
+  return result;
+}
+
+/**
+ * Validate a plain-text report on its first lines, then parse it a chunk
+ * at a time
+ */
+async function streamReport(
+  file: Blob,
+  fileName: string,
+  onBytes: (bytesRead: number) => void
+): Promise<{ report: ParsedReport; warnings: string[] }> {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  const parser = createReportParser(fileName);
+  let prefix = '';
+  let warnings: string[] | null = null;
+  let bytesRead = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      if (warnings === null) {
+        prefix += text;
+        if (done || prefix.length >= VALIDATION_PREFIX) {
+          // Validate complete lines only
+          warnings = checkReport(done ? prefix : prefix.slice(0, prefix.lastIndexOf('\n') + 1));
+          parser.push(prefix);
+          prefix = '';
+        }
+      } else {
+        parser.push(text);
+      }
+
+      if (done) break;
+      bytesRead += value.byteLength;
+      onBytes(bytesRead);
+    }
+  } catch (err) {
+    await reader.cancel().catch(() => {});
+    throw err;
+  }
+
+  return { report: parser.finish(), warnings: warnings ?? [] };
+}
+
+/**
+ * Validate the start of a report, returning its warnings, or throw the
+ * reason it can't be read
+ */
+function checkReport(content: string): string[] {
+  const validation = validateReport(content, detectDelimiter(content));
+  if (!validation.valid) {
+    throw new Error(validation.errors.join('. '));
+  }
+  return validation.warnings;
+}
@@ -0,0 +1,229 @@
+/**
+ * Revenue Trends
+ * Chart data for the revenue dashboard: proceeds over time by transaction
+ * date, country share, top products and units against proceeds by product
+ * type. Amounts are in one currency, converted when exchange rates are given.
+ */
+
+import type {
+  ParsedReport,
+  ExchangeRates,
+  MinorUnits,
+  TrendInterval,
+  TrendPoint,
+  TrendShare,
+  RevenueTrends,
+} from './types';
+import { formatDate } from './parser';
+import { getRate } from './currency-converter';
+import { convertMoney } from './money';
+import { PRODUCT_TYPE_LABELS } from './subscription-analytics';
+
+/** Options for `analyzeTrends` */
+export interface TrendOptions {
+  /** Currency to chart (default: the base currency when exchange rates are
+   *  given, otherwise the currency with the most transactions) */
+  currency?: string;
+  /** Convert every currency with a known rate when charting in the base
+   *  currency */
+  exchangeRates?: ExchangeRates;
+  /** Timeline bucket (default: days for up to two months, weeks beyond) */
+  interval?: TrendInterval;
+  /** Countries shown before the rest are folded into "Other" (default 8) */
+  maxCountries?: number;
+  /** Products shown (default 10) */
+  maxProducts?: number;
+}
+
+const DAY_MS = 86_400_000;
+
+/** Longest span, in days, charted day by day by default */
+const MAX_DAILY_SPAN = 62;
+
+/** Units and proceeds collected for one chart bar, in source currencies */
+interface Bucket {
+  key: string;
+  label: string;
+  units: number;
+  proceeds: Map<string, MinorUnits>;
+}
+
+/**
+ * Add a transaction to a keyed bucket
+ */
+function addTo(
+  buckets: Map<string, Bucket>,
+  key: string,
+  label: string,
+  units: number,
+  currency: string,
+  proceeds: MinorUnits
+): void {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = { key, label, units: 0, proceeds: new Map() };
+    buckets.set(key, bucket);
+  }
+  bucket.units += units;
+  bucket.proceeds.set(currency, (bucket.proceeds.get(currency) ?? 0) + proceeds);
+}
+
+/**
+ * Read a transaction date (MM/DD/YYYY) as a day number, or null
+ */
+function toDay(date: string): number | null {
+  const iso = formatDate(date.trim());
+  const time = Date.parse(`${iso}T00:00:00Z`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(iso) && !Number.isNaN(time) ? time / DAY_MS : null;
+}
+
+/**
+ * Pick the currency with the most transactions
+ */
+function busiestCurrency(report: ParsedReport): string {
+  const counts = new Map<string, number>();
+  for (const t of report.transactions) {
+    counts.set(t.partnerShareCurrency, (counts.get(t.partnerShareCurrency) ?? 0) + 1);
+  }
+  let busiest = report.summary.byCurrency[0]?.currency ?? '';
+  for (const [currency, count] of counts) {
+    if (count > (counts.get(busiest) ?? 0)) busiest = currency;
+  }
+  return busiest;
+}
+
+/**
+ * Build the dashboard's chart data from a report (or a merged report of
+ * several periods). Transactions without a valid date are left out of the
+ * timeline only.
+ */
+export function analyzeTrends(report: ParsedReport, options: TrendOptions = {}): RevenueTrends {
+  const rates = options.exchangeRates;
+  const currency = options.currency ?? rates?.baseCurrency ?? busiestCurrency(report);
+  const rateFor = (source: string) =>
+    rates && currency === rates.baseCurrency ? getRate(rates, source) : source === currency ? 1 : null;
+
+  const days = new Map<string, Bucket>();
+  const countries = new Map<string, Bucket>();
+  const products = new Map<string, Bucket>();
+  const productTypes = new Map<string, Bucket>();
+  let excluded = 0;
+
+  for (const t of report.transactions) {
+    if (rateFor(t.partnerShareCurrency) === null) {
+      excluded++;
+      continue;
+    }
+    const add = (buckets: Map<string, Bucket>, key: string, label: string) =>
+      addTo(buckets, key, label, t.quantity, t.partnerShareCurrency, t.extendedPartnerShare);
+
+    const day = toDay(t.transactionDate);
+    if (day !== null) {
+      add(days, String(day), '');
+    }
+    add(countries, t.countryOfSale, t.countryOfSale);
+    add(products, t.sku, t.title || t.sku);
+    add(
+      productTypes,
+      t.productTypeIdentifier,
+      PRODUCT_TYPE_LABELS[t.productTypeIdentifier] ?? (t.productTypeIdentifier || 'Unknown')
+    );
+  }
+
+  // Source amounts are summed per currency first and converted once, so
+  // rounding happens per bar rather than per transaction
+  const total = (bucket: Bucket) => {
+    let sum = 0;
+    for (const [source, amount] of bucket.proceeds) {
+      sum += source === currency ? amount : convertMoney(amount, source, rateFor(source)!, currency);
+    }
+    return sum;
+  };
+
+  const dayNumbers = Array.from(days.keys()).map(Number);
+  const first = Math.min(...dayNumbers);
+  const last = Math.max(...dayNumbers);
+  const interval = options.interval ?? (last - first < MAX_DAILY_SPAN ? 'day' : 'week');
+
+  return {
+    currency,
+    interval,
+    timeline: dayNumbers.length > 0 ? buildTimeline(days, first, last, interval, total) : [],
+    countries: toShares(Array.from(countries.values()), total, options.maxCountries ?? 8, true),
+    topProducts: toShares(Array.from(products.values()), total, options.maxProducts ?? 10, false),
+    productTypes: toShares(Array.from(productTypes.values()), total, Infinity, false),
+    excluded,
+  };
+}
+
+/**
+ * Sum daily buckets into days or weeks from the first to the last day,
+ * with zero points for gaps. Weeks run Sunday to Saturday, like Apple's
+ * fiscal weeks.
+ */
+function buildTimeline(
+  days: Map<string, Bucket>,
+  first: number,
+  last: number,
+  interval: TrendInterval,
+  total: (bucket: Bucket) => MinorUnits
+): TrendPoint[] {
+  // Day 0 (1970-01-01) was a Thursday
+  const bucketStart = (day: number) => (interval === 'day' ? day : day - ((day + 4) % 7));
+  const step = interval === 'day' ? 1 : 7;
+  const points = new Map<number, TrendPoint>();
+
+  for (let day = bucketStart(first); day <= last; day += step) {
+    points.set(day, {
+      date: new Date(day * DAY_MS).toISOString().slice(0, 10),
+      units: 0,
+      proceeds: 0,
+    });
+  }
+  for (const [day, bucket] of days) {
+    const point = points.get(bucketStart(Number(day)))!;
+    point.units += bucket.units;
+    point.proceeds += total(bucket);
+  }
+
+  return Array.from(points.values());
+}
+
+/**
+ * Rank buckets by proceeds and work out their shares. With `foldRest`, the
+ * buckets past `limit` are combined into one "Other" row; otherwise they
+ * are dropped (shares stay relative to the full total either way).
+ */
+function toShares(
+  buckets: Bucket[],
+  total: (bucket: Bucket) => MinorUnits,
+  limit: number,
+  foldRest: boolean
+): TrendShare[] {
+  const rows = buckets
+    .map((b) => ({ key: b.key, label: b.label, units: b.units, proceeds: total(b) }))
+    .sort((a, b) => b.proceeds - a.proceeds || a.label.localeCompare(b.label));
+
+  const allUnits = rows.reduce((sum, r) => sum + r.units, 0);
+  const allProceeds = rows.reduce((sum, r) => sum + r.proceeds, 0);
+
+  let shown = rows.slice(0, limit);
+  const rest = rows.slice(limit);
+  if (foldRest && rest.length > 0) {
+    shown = [
+      ...shown,
+      {
+        key: '',
+        label: 'Other',
+        units: rest.reduce((sum, r) => sum + r.units, 0),
+        proceeds: rest.reduce((sum, r) => sum + r.proceeds, 0),
+      },
+    ];
+  }
+
+  return shown.map((r) => ({
+    ...r,
+    unitShare: allUnits !== 0 ? r.units / allUnits : 0,
+    proceedsShare: allProceeds !== 0 ? r.proceeds / allProceeds : 0,
+  }));
+}
@@ -0,0 +1,138 @@
+/**
+ * Subscription Analytics
+ * Splits proceeds by product type, subscription stage (new, renewal, after
+ * one year) and promo/offer code
+ */
+
+import type {
+  ParsedReport,
+  Transaction,
+  RenewalStage,
+  SubscriptionBreakdown,
+  SubscriptionBreakdownRow,
+} from './types';
+import { isMessageKey, type Translate } from './i18n';
+
+/** Display names for Apple's Product Type Identifiers */
+export const PRODUCT_TYPE_LABELS: Record<string, string> = {
+  '1': 'Paid App',
+  '1F': 'Free App',
+  '1T': 'Paid App (iPad)',
+  '1E': 'Paid App (Custom)',
+  '1EP': 'Paid App (Custom, Mac)',
+  '1EU': 'Paid App (Custom, Universal)',
+  'F1': 'Paid App (Mac)',
+  'FI1': 'In-App Purchase (Mac)',
+  'IA1': 'In-App Purchase',
+  'IA1-M': 'In-App Purchase (Mac)',
+  'IA9': 'Non-Renewing Subscription',
+  'IA9-M': 'Non-Renewing Subscription (Mac)',
+  'IAY': 'Auto-Renewable Subscription',
+  'IAY-M': 'Auto-Renewable Subscription (Mac)',
+  'IAC': 'Free Subscription',
+  'IAC-M': 'Free Subscription (Mac)',
+};
+
+/** Display names for subscription stages */
+export const RENEWAL_STAGE_LABELS: Record<RenewalStage, string> = {
+  'new': 'New subscription',
+  'renewal': 'Renewal (first year)',
+  'after-one-year': 'Renewal (after one year)',
+  'unknown': 'Not specified',
+};
+
+/**
+ * Check whether a transaction is an auto-renewable subscription
+ */
+export function isAutoRenewable(t: Transaction): boolean {
+  return t.productTypeIdentifier.startsWith('IAY');
+}
+
+/**
+ * Classify a subscription transaction by lifecycle stage
+ */
+export function getRenewalStage(t: Transaction): RenewalStage {
+  if (/after one year/i.test(t.proceedsReason)) {
+    return 'after-one-year';
+  }
+  const subscription = t.subscription.toLowerCase();
+  if (subscription === 'new') {
+    return 'new';
+  }
+  if (subscription === 'renewal') {
+    return 'renewal';
+  }
+  return 'unknown';
+}
+
+/**
+ * Group transactions into breakdown rows keyed by category and currency
+ */
+function groupBy(
+  transactions: Transaction[],
+  classify: (t: Transaction) => { key: string; label: string }
+): SubscriptionBreakdownRow[] {
+  const map = new Map<string, SubscriptionBreakdownRow>();
+
+  for (const t of transactions) {
+    const { key, label } = classify(t);
+    const mapKey = `${key}-${t.partnerShareCurrency}`;
+    let existing = map.get(mapKey);
+
+    if (!existing) {
+      existing = { key, label, currency: t.partnerShareCurrency, quantity: 0, proceeds: 0 };
+      map.set(mapKey, existing);
+    }
+
+    existing.quantity += t.quantity;
+    existing.proceeds += t.extendedPartnerShare;
+  }
+
+  return Array.from(map.values()).sort(
+    (a, b) => a.label.localeCompare(b.label) || a.currency.localeCompare(b.currency)
+  );
+}
+
+/**
+ * Build the subscription breakdown for a report
+ */
+export function analyzeSubscriptions(report: ParsedReport): SubscriptionBreakdown {
+  const subscriptions = report.transactions.filter(isAutoRenewable);
+
+  return {
+    byProductType: groupBy(report.transactions, (t) => ({
+      key: t.productTypeIdentifier,
+      label: PRODUCT_TYPE_LABELS[t.productTypeIdentifier] ?? (t.productTypeIdentifier || 'Unknown'),
+    })),
+    byRenewal: groupBy(subscriptions, (t) => {
+      const stage = getRenewalStage(t);
+      return { key: stage, label: RENEWAL_STAGE_LABELS[stage] };
+    }),
+    // Promo codes identify offer codes; the order type marks pre-orders
+    // and similar when no code was used
+    byOffer: groupBy(report.transactions, (t) => {
+      const key = t.promoCode || t.orderType;
+      return { key, label: key || 'No offer' };
+    }),
+    hasSubscriptions: subscriptions.length > 0,
+  };
+}
+
+/**
+ * Label of a breakdown row in the translator's language. Rows are keyed by
+ * product type identifier, subscription stage or offer code.
+ */
+export function translateSubscriptionLabel(
+  dimension: Exclude<keyof SubscriptionBreakdown, 'hasSubscriptions'>,
+  row: SubscriptionBreakdownRow,
+  t: Translate
+): string {
+  if (dimension === 'byOffer') {
+    return row.key || t('subscriptions.noOffer');
+  }
+  const key = dimension === 'byProductType' ? `productType.${row.key}` : `renewal.${row.key}`;
+  if (isMessageKey(key)) {
+    return t(key);
+  }
+  return dimension === 'byProductType' ? row.key || t('subscriptions.unknownType') : row.label;
+}
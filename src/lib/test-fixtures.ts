@@ -0,0 +1,43 @@
+/**
+ * Test Fixtures
+ * Small reports in Apple's formats, shared by the tests
+ */
+
+/** Column header of a financial report */
+const HEADER = [
+  'Transaction Date', 'Settlement Date', 'Apple Identifier', 'SKU', 'Title', 'Developer Name',
+  'Product Type Identifier', 'Country of Sale', 'Quantity', 'Partner Share', 'Extended Partner Share',
+  'Partner Share Currency', 'Customer Price', 'Customer Currency', 'Sale or Return', 'Apple Identifier',
+  'Promo Code', 'Parent Identifier', 'Subscription', 'Period', 'Download Date (PST)', 'Customer Identifier',
+  'Report Date (Local)', 'Sales/Return Confirmed', 'Order Type', 'Region',
+].join('\t');
+
+/** Financial report for FY26 P03 with the Total_* trailer and country summary */
+export const FINANCIAL_REPORT = [
+  'Start Date\t11/30/2025',
+  'End Date\t12/27/2025',
+  'Vendor Name\tAcme Apps',
+  '',
+  HEADER,
+  '12/01/2025\t12/01/2025\t123\tpro.monthly\tPro Monthly\tAcme\tIAY\tUS\t2\t6.99\t13.98\tUSD\t9.99\tUSD\tS\t123\t\t\tNew\t1 Month\t\t\t\t\t\tAmericas',
+  '12/03/2025\t12/03/2025\t124\tpro.yearly\tPro Yearly\tAcme\tIAY\tDE\t1\t35.00\t35.00\tEUR\t49.99\tEUR\tS\t124\t\t\tRenewal\t1 Year\t\t\t\t\t\tEurope',
+  '',
+  'Total_Rows\t2',
+  'Total_Amount\t48.98',
+  'Total_Units\t3',
+  '',
+  'Country Of Sale\tPartner Share Currency\tQuantity\tExtended Partner Share',
+  'US\tUSD\t2\t13.98',
+  'DE\tEUR\t1\t35.00',
+].join('\n');
+
+/** Weekly Sales and Trends summary report inside FY26 P03 */
+export const SALES_REPORT = [
+  [
+    'Provider', 'Provider Country', 'SKU', 'Developer', 'Title', 'Version', 'Product Type Identifier', 'Units',
+    'Developer Proceeds', 'Begin Date', 'End Date', 'Customer Currency', 'Country Code', 'Currency of Proceeds',
+    'Apple Identifier', 'Customer Price', 'Promo Code', 'Parent Identifier', 'Subscription', 'Period', 'Category',
+    'CMB', 'Device', 'Supported Platforms', 'Proceeds Reason', 'Preserved Pricing', 'Client', 'Order Type',
+  ].join('\t'),
+  'APPLE\tUS\tpro.monthly\tAcme Apps\tPro Monthly\t\tIAY\t3\t6.99\t12/01/2025\t12/07/2025\tUSD\tUS\tUSD\t123\t9.99\t\t\tRenewal\t1 Month\tProductivity\t\tiPhone\tiOS\t\t\t\t',
+].join('\n');
@@ -0,0 +1,181 @@
+/**
+ * Trend Charts
+ * Draws revenue trend data as self-contained SVG strings: a proceeds
+ * timeline and horizontal bar charts for shares and rankings. Bars carry
+ * <title> tooltips. No DOM access, so charts can also be rendered in Node.
+ */
+
+import type { RevenueTrends, TrendShare, MinorUnits } from './types';
+import { formatCurrency } from './parser';
+import { toMajor } from './money';
+import { createTranslator, getIntlLocale, formatLocalDate, type Locale } from './i18n';
+
+/** Chart colors, matching the app theme */
+export const CHART_COLORS = {
+  proceeds: '#2563eb',
+  units: '#06b6d4',
+  negative: '#ef4444',
+  axis: '#e2e8f0',
+  text: '#475569',
+};
+
+/** Options shared by all charts */
+export interface ChartOptions {
+  /** Language of numbers and dates (default 'en') */
+  locale?: Locale;
+  /** Width of the SVG coordinate system; charts scale to their container */
+  width?: number;
+}
+
+const FONT = 'font-family="system-ui, sans-serif" font-size="11"';
+
+/**
+ * Escape text for use in SVG content and attributes
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Shorten a label to fit a fixed column
+ */
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Short currency amount for axis labels, e.g. "$1.2K"
+ */
+export function formatCompactAmount(amount: MinorUnits, currency: string, locale: Locale = 'en'): string {
+  return new Intl.NumberFormat(getIntlLocale(locale), {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    maximumFractionDigits: 1,
+  }).format(toMajor(amount, currency));
+}
+
+/**
+ * Format a share (0 to 1) as a percentage
+ */
+function formatShare(share: number, locale: Locale): string {
+  return new Intl.NumberFormat(getIntlLocale(locale), {
+    style: 'percent',
+    maximumFractionDigits: 1,
+  }).format(share);
+}
+
+/**
+ * Column chart of net proceeds per day or week. Refund-heavy buckets
+ * are drawn below the zero line.
+ */
+export function renderTimelineSVG(trends: RevenueTrends, options: ChartOptions = {}): string {
+  const locale = options.locale ?? 'en';
+  const t = createTranslator(locale);
+  const width = options.width ?? 640;
+  const height = 220;
+  const left = 64;
+  const bottom = 24;
+  const top = 10;
+  const plotWidth = width - left - 8;
+  const plotHeight = height - top - bottom;
+  const points = trends.timeline;
+
+  const max = Math.max(0, ...points.map((p) => p.proceeds));
+  const min = Math.min(0, ...points.map((p) => p.proceeds));
+  const range = max - min || 1;
+  const y = (value: number) => top + ((max - value) / range) * plotHeight;
+  const slot = plotWidth / Math.max(points.length, 1);
+  const barWidth = Math.max(slot * 0.75, 1);
+
+  const bars = points.map((p, i) => {
+    const x = left + i * slot + (slot - barWidth) / 2;
+    const barTop = Math.min(y(p.proceeds), y(0));
+    const barHeight = Math.abs(y(p.proceeds) - y(0));
+    const tooltip = `${formatLocalDate(p.date, locale)}: ${formatCurrency(p.proceeds, trends.currency, locale)} · ${t('col.units')}: ${p.units}`;
+    return `<rect x="${x.toFixed(1)}" y="${barTop.toFixed(1)}" width="${barWidth.toFixed(1)}" height="${barHeight.toFixed(1)}" fill="${p.proceeds < 0 ? CHART_COLORS.negative : CHART_COLORS.proceeds}"><title>${escapeXml(tooltip)}</title></rect>`;
+  });
+
+  // First, middle and last bucket dates along the bottom
+  const dateLabels = [...new Set([0, Math.floor((points.length - 1) / 2), points.length - 1])]
+    .filter((i) => i >= 0 && points.length > 0)
+    .map((i, n, all) => {
+      const x = left + i * slot + slot / 2;
+      const anchor = all.length > 1 && n === 0 ? 'start' : n === all.length - 1 && all.length > 1 ? 'end' : 'middle';
+      return `<text x="${x.toFixed(1)}" y="${height - 6}" text-anchor="${anchor}" fill="${CHART_COLORS.text}">${escapeXml(formatLocalDate(points[i].date, locale))}</text>`;
+    });
+
+  const valueLabels = [max, ...(min < 0 ? [min] : []), 0].map((value) =>
+    `<text x="${left - 6}" y="${(y(value) + 4).toFixed(1)}" text-anchor="end" fill="${CHART_COLORS.text}">${escapeXml(formatCompactAmount(value, trends.currency, locale))}</text>`
+  );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="100%" role="img" ${FONT}>` +
+    `<line x1="${left}" x2="${width - 8}" y1="${y(0).toFixed(1)}" y2="${y(0).toFixed(1)}" stroke="${CHART_COLORS.axis}"/>` +
+    bars.join('') + dateLabels.join('') + valueLabels.join('') +
+    '</svg>';
+}
+
+/**
+ * Horizontal bars of net proceeds per row, labelled with the amount and
+ * the share of all proceeds
+ */
+export function renderShareSVG(rows: TrendShare[], currency: string, options: ChartOptions = {}): string {
+  const locale = options.locale ?? 'en';
+  const t = createTranslator(locale);
+  const width = options.width ?? 640;
+  const rowHeight = 24;
+  const labelWidth = 150;
+  const valueWidth = 150;
+  const barArea = width - labelWidth - valueWidth;
+  const max = Math.max(1, ...rows.map((r) => r.proceeds));
+
+  const body = rows.map((r, i) => {
+    const y = i * rowHeight;
+    const barWidth = Math.max(0, (r.proceeds / max) * barArea);
+    const value = `${formatCurrency(r.proceeds, currency, locale)} (${formatShare(r.proceedsShare, locale)})`;
+    return `<g><title>${escapeXml(`${r.label}: ${value} · ${t('col.units')}: ${r.units}`)}</title>` +
+      `<text x="0" y="${y + 16}" fill="${CHART_COLORS.text}">${escapeXml(truncate(r.label, 24))}</text>` +
+      `<rect x="${labelWidth}" y="${y + 5}" width="${barWidth.toFixed(1)}" height="${rowHeight - 10}" rx="3" fill="${CHART_COLORS.proceeds}"/>` +
+      `<text x="${width}" y="${y + 16}" text-anchor="end" fill="${CHART_COLORS.text}">${escapeXml(value)}</text></g>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${Math.max(rows.length, 1) * rowHeight}" width="100%" role="img" ${FONT}>` +
+    body.join('') +
+    '</svg>';
+}
+
+/**
+ * Paired bars comparing each row's share of units with its share of
+ * proceeds, e.g. many cheap units against few expensive ones
+ */
+export function renderUnitsVsProceedsSVG(rows: TrendShare[], options: ChartOptions = {}): string {
+  const locale = options.locale ?? 'en';
+  const t = createTranslator(locale);
+  const width = options.width ?? 640;
+  const rowHeight = 32;
+  const labelWidth = 190;
+  const valueWidth = 60;
+  const barArea = width - labelWidth - valueWidth;
+
+  const body = rows.map((r, i) => {
+    const y = i * rowHeight;
+    const bar = (share: number, offset: number, color: string) => {
+      const barWidth = Math.max(0, Math.min(share, 1)) * barArea;
+      return `<rect x="${labelWidth}" y="${y + offset}" width="${barWidth.toFixed(1)}" height="10" rx="2" fill="${color}"/>` +
+        `<text x="${width}" y="${y + offset + 9}" text-anchor="end" fill="${CHART_COLORS.text}">${formatShare(share, locale)}</text>`;
+    };
+    return `<g><title>${escapeXml(`${r.label}: ${t('col.units')} ${formatShare(r.unitShare, locale)} · ${t('col.proceeds')} ${formatShare(r.proceedsShare, locale)}`)}</title>` +
+      `<text x="0" y="${y + 19}" fill="${CHART_COLORS.text}">${escapeXml(truncate(r.label, 30))}</text>` +
+      bar(r.unitShare, 4, CHART_COLORS.units) +
+      bar(r.proceedsShare, 16, CHART_COLORS.proceeds) +
+      '</g>';
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${Math.max(rows.length, 1) * rowHeight}" width="100%" role="img" ${FONT}>` +
+    body.join('') +
+    '</svg>';
+}
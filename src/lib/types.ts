@@ -2,8 +2,18 @@
  * Types for Apple App Store Financial Report parsing
  */
 
+/**
+ * An exact money amount in integer minor units of its currency: cents for
+ * USD, yen for JPY, fils for KWD. Every amount in the report model uses this.
+ */
+export type MinorUnits = number;
+
+/** Kind of App Store Connect report: financial report or Sales and Trends summary */
+export type ReportType = 'financial' | 'sales';
+
 /** Metadata extracted from the report header */
 export interface ReportMetadata {
+  reportType: ReportType;
   vendorName: string;
   startDate: string;
   endDate: string;
@@ -20,50 +30,483 @@ export interface Transaction {
   productTypeIdentifier: string;
   countryOfSale: string;
   quantity: number;
-  partnerShare: number;
-  extendedPartnerShare: number;
+  partnerShare: MinorUnits;
+  extendedPartnerShare: MinorUnits;
   partnerShareCurrency: string;
-  customerPrice: number;
+  customerPrice: MinorUnits;
   customerCurrency: string;
   saleOrReturn: string;
   promoCode: string;
   orderType: string;
   region: string;
+  /** "New" or "Renewal" for subscriptions (Sales and Trends reports) */
+  subscription: string;
+  /** Subscription duration, e.g. "1 Month" */
+  period: string;
+  /** e.g. "Rate After One Year" when the 85% proceeds rate applies */
+  proceedsReason: string;
 }
 
 /** Aggregated data by country */
 export interface CountryBreakdown {
   countryOfSale: string;
   currency: string;
+  /** Net units (sold minus returned) */
   quantity: number;
-  proceeds: number;
+  /** Units refunded to customers */
+  returnedQuantity: number;
+  /** Proceeds from sales, before returns */
+  grossProceeds: MinorUnits;
+  /** Proceeds clawed back by returns (zero or negative) */
+  returnProceeds: MinorUnits;
+  /** Net proceeds (gross plus returns) */
+  proceeds: MinorUnits;
 }
 
 /** Aggregated data by product */
 export interface ProductBreakdown {
   title: string;
   sku: string;
+  /** Net units (sold minus returned) */
+  quantity: number;
+  /** Units refunded to customers */
+  returnedQuantity: number;
+  grossByCurrency: Record<string, MinorUnits>;
+  returnsByCurrency: Record<string, MinorUnits>;
+  /** Net proceeds per currency */
+  proceedsByCurrency: Record<string, MinorUnits>;
+}
+
+/** Product totals in a single proceeds currency */
+export interface ProductCurrencyBreakdown {
+  title: string;
+  sku: string;
+  currency: string;
+  /** Net units (sold minus returned) */
   quantity: number;
-  proceedsByCurrency: Record<string, number>;
+  /** Units refunded to customers */
+  returnedQuantity: number;
+  grossProceeds: MinorUnits;
+  returnProceeds: MinorUnits;
+  proceeds: MinorUnits;
 }
 
 /** Aggregated data by currency */
 export interface CurrencySummary {
   currency: string;
-  totalProceeds: number;
+  /** Proceeds from sales, before returns */
+  grossProceeds: MinorUnits;
+  /** Proceeds clawed back by returns (zero or negative) */
+  returnProceeds: MinorUnits;
+  /** Net proceeds (gross plus returns) */
+  totalProceeds: MinorUnits;
+  /** Net units (sold minus returned) */
   totalQuantity: number;
+  /** Units refunded to customers */
+  returnedQuantity: number;
+}
+
+/** A row from Apple's trailing "Country Of Sale" summary block */
+export interface CountrySummaryRow {
+  countryOfSale: string;
+  currency: string;
+  quantity: number;
+  extendedPartnerShare: MinorUnits;
+}
+
+/** Comparison of Apple's reported country totals against the parsed rows */
+export interface CountryIntegrityCheck {
+  countryOfSale: string;
+  currency: string;
+  reportedQuantity: number;
+  parsedQuantity: number;
+  reportedProceeds: MinorUnits;
+  parsedProceeds: MinorUnits;
+  matches: boolean;
+}
+
+/** Result of reconciling a report against Apple's own summary block */
+export interface IntegrityReport {
+  checks: CountryIntegrityCheck[];
+  validation: ValidationResult;
+}
+
+/** Subscription lifecycle stage of a transaction */
+export type RenewalStage = 'new' | 'renewal' | 'after-one-year' | 'unknown';
+
+/** One category of a subscription breakdown, in one currency */
+export interface SubscriptionBreakdownRow {
+  key: string;
+  label: string;
+  currency: string;
+  quantity: number;
+  proceeds: MinorUnits;
+}
+
+/** Proceeds split by product type, subscription stage and offer */
+export interface SubscriptionBreakdown {
+  byProductType: SubscriptionBreakdownRow[];
+  /** Auto-renewable subscription rows only */
+  byRenewal: SubscriptionBreakdownRow[];
+  byOffer: SubscriptionBreakdownRow[];
+  hasSubscriptions: boolean;
+}
+
+/** Apple commission tier a transaction was charged at */
+export type CommissionTier = '15%' | '30%' | 'other' | 'unknown';
+
+/** Gross-to-net split of a single transaction */
+export interface TransactionCommission {
+  transaction: Transaction;
+  /** Customer price × quantity including tax; null when priced in another currency */
+  customerSpend: MinorUnits | null;
+  /** Tax estimated from the storefront's standard rate */
+  estimatedTax: MinorUnits | null;
+  commission: MinorUnits | null;
+  /** Commission as a share of the price excluding tax */
+  commissionRate: number | null;
+  tier: CommissionTier;
+}
+
+/** Gross-to-net totals for one breakdown row, in the proceeds currency */
+export interface CommissionBreakdown {
+  key: string;
+  label: string;
+  currency: string;
+  customerSpend: MinorUnits;
+  estimatedTax: MinorUnits;
+  commission: MinorUnits;
+  netProceeds: MinorUnits;
+  commissionRate: number | null;
+  /** Transactions in this row not at the 15% or 30% tier */
+  offTierCount: number;
+}
+
+/** Commission model derived from a report */
+export interface CommissionAnalysis {
+  transactions: TransactionCommission[];
+  byCurrency: CommissionBreakdown[];
+  byCountry: CommissionBreakdown[];
+  byProduct: CommissionBreakdown[];
+  /** Paid transactions not at the expected 15% or 30% tier */
+  offTier: TransactionCommission[];
+  /** Transactions left out because their price and proceeds currencies differ */
+  excludedCount: number;
+}
+
+/** Aggregated totals for a report */
+export interface ReportSummary {
+  byCountry: CountryBreakdown[];
+  byProduct: ProductBreakdown[];
+  byCurrency: CurrencySummary[];
+  totalTransactions: number;
+  totalReturns: number;
+}
+
+/** Provenance of a single source file that contributed to a report */
+export interface ReportSource {
+  fileName: string;
+  vendorName: string;
+  startDate: string;
+  endDate: string;
+  currencies: string[];
+  transactionCount: number;
+  /** Content hash used to detect the same report being loaded twice */
+  fingerprint: string;
 }
 
 /** Complete parsed report structure */
 export interface ParsedReport {
+  /** For merged reports, the period spans all sources */
   metadata: ReportMetadata;
   transactions: Transaction[];
-  summary: {
-    byCountry: CountryBreakdown[];
-    byProduct: ProductBreakdown[];
-    byCurrency: CurrencySummary[];
-    totalTransactions: number;
-  };
+  summary: ReportSummary;
+  /** Apple's own per-country totals; null when any source lacks the block */
+  reportedSummary: CountrySummaryRow[] | null;
+  sources: ReportSource[];
+  /** Rows the parser skipped or had to guess at */
+  diagnostics: ParseError[];
+}
+
+/** Outcome of combining several parsed reports into one */
+export interface MergeResult {
+  report: ParsedReport;
+  /** Sources skipped because an identical report was already included */
+  duplicates: ReportSource[];
+}
+
+/** A text file taken out of an upload, ready to validate and parse */
+export interface ReportFile {
+  /** File name; entries of archives are named `archive.zip/entry.txt` */
+  name: string;
+  content: string;
+}
+
+/** A file from an upload that is not a usable report, and why */
+export interface RejectedFile {
+  name: string;
+  reason: string;
+}
+
+/** Text files found in an upload and the files that were rejected */
+export interface ExtractedFiles {
+  files: ReportFile[];
+  rejected: RejectedFile[];
+}
+
+/** How far reading a set of uploaded files has got */
+export interface LoadProgress {
+  /** File being read */
+  fileName: string;
+  /** Bytes read across all files */
+  bytesRead: number;
+  totalBytes: number;
+}
+
+/** Reports parsed from a set of uploaded files */
+export interface LoadedReports {
+  reports: ParsedReport[];
+  /** Validation warnings, prefixed with the file name when there are several files */
+  warnings: string[];
+  rejected: RejectedFile[];
+}
+
+/** Where an exchange rate came from */
+export type ExchangeRateSource = 'manual' | 'csv' | 'apple';
+
+/** Conversion rate: 1 unit of `currency` equals `rate` units of the base currency */
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  source: ExchangeRateSource;
+}
+
+/** User-supplied exchange rates into a single base currency */
+export interface ExchangeRates {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+}
+
+/** Currency summary with base-currency totals (null when no rate is known).
+ *  Converted amounts are minor units of the base currency. */
+export interface ConvertedCurrencySummary extends CurrencySummary {
+  rate: number | null;
+  convertedGross: MinorUnits | null;
+  convertedReturns: MinorUnits | null;
+  convertedProceeds: MinorUnits | null;
+}
+
+/** Country breakdown with base-currency proceeds */
+export interface ConvertedCountryBreakdown extends CountryBreakdown {
+  rate: number | null;
+  convertedProceeds: MinorUnits | null;
+}
+
+/** Product breakdown with proceeds summed across currencies in the base currency */
+export interface ConvertedProductBreakdown extends ProductBreakdown {
+  /** Null when any of the product's currencies has no rate */
+  convertedProceeds: MinorUnits | null;
+}
+
+/** Report summary converted into a base currency */
+export interface ConvertedSummary {
+  baseCurrency: string;
+  byCurrency: ConvertedCurrencySummary[];
+  byCountry: ConvertedCountryBreakdown[];
+  byProduct: ConvertedProductBreakdown[];
+  /** Totals across all currencies that have a rate */
+  totalGross: MinorUnits;
+  totalReturns: MinorUnits;
+  totalProceeds: MinorUnits;
+  /** Currencies excluded from the totals because no rate was supplied */
+  missingRates: string[];
+}
+
+/** What actually reached the bank, in minor units of the base (bank account) currency */
+export interface PayoutInput {
+  depositAmount: MinorUnits;
+  /** Tax Apple withheld before paying out (positive amount) */
+  withholdingTax?: MinorUnits;
+  /** Apple adjustments included in the payout (signed) */
+  adjustments?: MinorUnits;
+}
+
+/** Per-currency line of a payout reconciliation */
+export interface CurrencyPayoutLine {
+  currency: string;
+  netProceeds: MinorUnits;
+  /** Rate supplied by the user, if any */
+  rate: number | null;
+  /** Net proceeds converted at the supplied rate, or the remainder of the
+   *  deposit when this is the only currency without a rate */
+  expectedAmount: MinorUnits | null;
+  /** Rate Apple effectively applied, derived from the deposit */
+  impliedRate: number | null;
+}
+
+/** Reconciliation of a statement against the amount deposited by Apple */
+export interface PayoutReconciliation {
+  baseCurrency: string;
+  lines: CurrencyPayoutLine[];
+  /** Sum of the per-currency expected amounts */
+  expectedProceeds: MinorUnits;
+  withholdingTax: MinorUnits;
+  adjustments: MinorUnits;
+  /** Expected proceeds less withholding tax plus adjustments */
+  expectedDeposit: MinorUnits;
+  depositAmount: MinorUnits;
+  /** Deposit minus expected deposit; null when too many rates are missing to tell */
+  difference: MinorUnits | null;
+}
+
+/** How a breakdown row changed between two periods */
+export type ChangeStatus = 'new' | 'removed' | 'changed' | 'unchanged';
+
+/** One currency, country or product compared across two periods */
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  currency: string;
+  previousQuantity: number;
+  currentQuantity: number;
+  previousProceeds: MinorUnits;
+  currentProceeds: MinorUnits;
+  /** Current minus previous proceeds */
+  change: MinorUnits;
+  /** Change relative to the previous proceeds; null when there were none */
+  percentChange: number | null;
+  status: ChangeStatus;
+}
+
+/** Breakdowns of one period diffed against an earlier one */
+export interface PeriodComparison {
+  previous: ReportMetadata;
+  current: ReportMetadata;
+  byCurrency: ComparisonRow[];
+  byCountry: ComparisonRow[];
+  byProduct: ComparisonRow[];
+}
+
+/** One of Apple's fiscal months: four or five whole weeks, Sunday to Saturday */
+export interface FiscalPeriod {
+  /** Named after the calendar year it ends in (FY26 runs to September 2026) */
+  fiscalYear: number;
+  /** 1 to 12; period 1 is October */
+  period: number;
+  /** 1 to 4 */
+  quarter: number;
+  /** Calendar month the period is named after, 1 to 12 */
+  month: number;
+  /** MM/DD/YYYY, like report dates */
+  startDate: string;
+  endDate: string;
+  weeks: number;
+}
+
+/** Reports combined into one fiscal quarter or year */
+export interface FiscalGroup {
+  /** e.g. "FY26 Q1" or "FY26" */
+  label: string;
+  fiscalYear: number;
+  /** Null when the group is a whole year */
+  quarter: number | null;
+  /** First and last day of the quarter or year */
+  startDate: string;
+  endDate: string;
+  /** Merged report of every report ending in the group */
+  report: ParsedReport;
+  /** Fiscal months of the group no report ends in */
+  missingPeriods: FiscalPeriod[];
+}
+
+/** Proceeds attributed to one calendar month, for accrual accounting */
+export interface CalendarMonthAccrual {
+  /** YYYY-MM */
+  month: string;
+  /** Net proceeds by currency, prorated by day */
+  proceedsByCurrency: Record<string, MinorUnits>;
+}
+
+/** Bucket size of a revenue timeline */
+export type TrendInterval = 'day' | 'week';
+
+/** Net units and proceeds of one day or week */
+export interface TrendPoint {
+  /** First day of the bucket, YYYY-MM-DD */
+  date: string;
+  units: number;
+  proceeds: MinorUnits;
+}
+
+/** One bar of a share or ranking chart */
+export interface TrendShare {
+  /** Country code, SKU or product type identifier; empty for "Other" */
+  key: string;
+  label: string;
+  units: number;
+  proceeds: MinorUnits;
+  /** Fraction of all net units, 0 to 1 */
+  unitShare: number;
+  /** Fraction of all net proceeds, 0 to 1 */
+  proceedsShare: number;
+}
+
+/** Chart data for the revenue dashboard, with every amount in one currency */
+export interface RevenueTrends {
+  currency: string;
+  interval: TrendInterval;
+  /** Every day or week from the first transaction to the last, gaps included */
+  timeline: TrendPoint[];
+  /** Largest countries by proceeds, the rest folded into "Other" */
+  countries: TrendShare[];
+  /** Products with the highest proceeds */
+  topProducts: TrendShare[];
+  /** Units against proceeds by product type */
+  productTypes: TrendShare[];
+  /** Transactions in other currencies that had no exchange rate */
+  excluded: number;
+}
+
+/** Accounts a statement is booked to (names or codes, depending on the ledger) */
+export interface AccountMapping {
+  /** Asset account for what Apple owes */
+  receivable: string;
+  /** Income account for sales */
+  revenue: string;
+  /** Expense account for Apple's commission */
+  commission: string;
+  /** Xero tax rate name put on every journal line */
+  taxRate: string;
+}
+
+/** One posting of a journal entry; positive amounts are debits, negative credits */
+export interface JournalLine {
+  account: string;
+  amount: MinorUnits;
+  currency: string;
+  description: string;
+  /** Tracking category such as Country = DE */
+  tracking?: { name: string; option: string };
+}
+
+/** A balanced journal entry booking one currency of a statement */
+export interface JournalEntry {
+  /** ISO date the entry is booked on (the end of the reporting period) */
+  date: string;
+  reference: string;
+  description: string;
+  currency: string;
+  lines: JournalLine[];
+}
+
+/** A parsed report kept in the local report library */
+export interface StoredReport {
+  /** Derived from the source fingerprints, so reloading the same files
+   *  replaces the earlier entry */
+  id: string;
+  /** ISO timestamp of when the report was saved */
+  savedAt: string;
+  report: ParsedReport;
 }
 
 /** Validation result for report parsing */
@@ -73,15 +516,32 @@ export interface ValidationResult {
   warnings: string[];
 }
 
+/** Kind of problem the parser found in a report */
+export type ParseDiagnosticCode =
+  | 'unknown-header'
+  | 'column-count'
+  | 'invalid-number'
+  | 'invalid-date'
+  | 'unknown-currency'
+  | 'missing-field'
+  | 'unknown-sale-or-return';
+
 /** Parser error with context */
 export interface ParseError {
+  code: ParseDiagnosticCode;
+  /** Errors mean the row was skipped; warnings mean it was kept with a guessed value */
+  severity: 'error' | 'warning';
   message: string;
+  /** 1-based line number in the source file */
   line?: number;
   column?: string;
+  /** The offending line as it appears in the file */
+  raw?: string;
+  fileName?: string;
 }
 
 /** Application state for the UI */
-export type AppState = 'upload' | 'preview' | 'generating' | 'complete' | 'error';
+export type AppState = 'upload' | 'preview' | 'history' | 'generating' | 'complete' | 'error';
 
 /** Error state for the UI */
 export interface AppError {
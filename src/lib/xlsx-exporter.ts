@@ -0,0 +1,207 @@
+/**
+ * XLSX Exporter for Apple App Store Sales Reports
+ * Builds an Excel workbook with Summary, Countries, Products and
+ * Transactions sheets. Amounts are numeric cells formatted in their own
+ * currency, so nothing is mixed into a single text cell.
+ */
+
+import type { ParsedReport, ExchangeRates, MinorUnits } from './types';
+import { aggregateProductsByCurrency, formatDate, isReturn } from './parser';
+import { getRate } from './currency-converter';
+import { convertMoney, getCurrencyPrecision, toMajor } from './money';
+import { writeXLSX, type XLSXCell, type XLSXColumn, type XLSXSheet } from './xlsx-writer';
+
+/** XLSX generation options */
+export interface XLSXOptions {
+  /** When set, breakdowns get a rate and a base-currency proceeds column */
+  exchangeRates?: ExchangeRates;
+}
+
+const DATE_FORMAT = 'yyyy-mm-dd';
+const RATE_FORMAT = '0.0000##';
+
+/**
+ * Number format for a currency, e.g. `#,##0.00 "USD"` or `#,##0 "JPY"`
+ */
+function currencyFormat(currency: string): string {
+  const precision = getCurrencyPrecision(currency);
+  return `#,##0${precision > 0 ? '.' + '0'.repeat(precision) : ''} "${currency}"`;
+}
+
+/**
+ * Amount cell in major units with its currency's format
+ */
+function money(amount: MinorUnits, currency: string): XLSXCell {
+  return { value: toMajor(amount, currency), format: currencyFormat(currency) };
+}
+
+/**
+ * Date cell from an Apple MM/DD/YYYY date; left as text when it isn't one
+ */
+function date(value: string): XLSXCell {
+  const iso = formatDate(value);
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return value || null;
+  }
+  // Excel serial dates count days from 1899-12-30
+  const days = (Date.UTC(+match[1], +match[2] - 1, +match[3]) - Date.UTC(1899, 11, 30)) / 86_400_000;
+  return { value: days, format: DATE_FORMAT };
+}
+
+/**
+ * Rate and base-currency proceeds columns for breakdown sheets
+ */
+function conversionColumns(rates: ExchangeRates | undefined): XLSXColumn[] {
+  return rates
+    ? [{ header: `Rate to ${rates.baseCurrency}` }, { header: `Net Proceeds (${rates.baseCurrency})`, width: 22 }]
+    : [];
+}
+
+function conversionCells(rates: ExchangeRates | undefined, proceeds: MinorUnits, currency: string): XLSXCell[] {
+  if (!rates) return [];
+  const rate = getRate(rates, currency);
+  if (rate === null) return [null, null];
+  return [
+    { value: rate, format: RATE_FORMAT },
+    money(convertMoney(proceeds, currency, rate, rates.baseCurrency), rates.baseCurrency),
+  ];
+}
+
+/**
+ * Generate an .xlsx workbook from parsed report data
+ */
+export function generateXLSX(report: ParsedReport, options: XLSXOptions = {}): Uint8Array {
+  const rates = options.exchangeRates;
+  const amountColumns: XLSXColumn[] = [
+    { header: 'Gross Sales', width: 16 },
+    { header: 'Returns', width: 16 },
+    { header: 'Net Proceeds', width: 16 },
+  ];
+
+  const summary: XLSXSheet = {
+    name: 'Summary',
+    columns: [
+      { header: 'Currency' },
+      { header: 'Net Units' },
+      { header: 'Units Returned' },
+      ...amountColumns,
+      ...conversionColumns(rates),
+    ],
+    rows: report.summary.byCurrency.map((c) => [
+      c.currency,
+      c.totalQuantity,
+      c.returnedQuantity,
+      money(c.grossProceeds, c.currency),
+      money(c.returnProceeds, c.currency),
+      money(c.totalProceeds, c.currency),
+      ...conversionCells(rates, c.totalProceeds, c.currency),
+    ]),
+  };
+
+  const countries: XLSXSheet = {
+    name: 'Countries',
+    columns: [
+      { header: 'Country' },
+      { header: 'Currency' },
+      { header: 'Net Units' },
+      { header: 'Units Returned' },
+      ...amountColumns,
+      ...conversionColumns(rates),
+    ],
+    rows: report.summary.byCountry.map((c) => [
+      c.countryOfSale,
+      c.currency,
+      c.quantity,
+      c.returnedQuantity,
+      money(c.grossProceeds, c.currency),
+      money(c.returnProceeds, c.currency),
+      money(c.proceeds, c.currency),
+      ...conversionCells(rates, c.proceeds, c.currency),
+    ]),
+  };
+
+  // One row per product and currency instead of "12.00 USD | 5.00 EUR"
+  const products: XLSXSheet = {
+    name: 'Products',
+    columns: [
+      { header: 'Product', width: 30 },
+      { header: 'SKU', width: 24 },
+      { header: 'Currency' },
+      { header: 'Net Units' },
+      { header: 'Units Returned' },
+      ...amountColumns,
+      ...conversionColumns(rates),
+    ],
+    rows: aggregateProductsByCurrency(report.transactions).map((p) => [
+      p.title,
+      p.sku,
+      p.currency,
+      p.quantity,
+      p.returnedQuantity,
+      money(p.grossProceeds, p.currency),
+      money(p.returnProceeds, p.currency),
+      money(p.proceeds, p.currency),
+      ...conversionCells(rates, p.proceeds, p.currency),
+    ]),
+  };
+
+  const transactions: XLSXSheet = {
+    name: 'Transactions',
+    columns: [
+      { header: 'Date', width: 12 },
+      { header: 'Settlement Date', width: 16 },
+      { header: 'Country' },
+      { header: 'Product', width: 30 },
+      { header: 'SKU', width: 24 },
+      { header: 'Apple Identifier', width: 16 },
+      { header: 'Product Type' },
+      { header: 'Type' },
+      { header: 'Quantity' },
+      { header: 'Partner Share', width: 16 },
+      { header: 'Proceeds', width: 16 },
+      { header: 'Currency' },
+      { header: 'Customer Price', width: 16 },
+      { header: 'Customer Currency', width: 18 },
+      { header: 'Promo Code' },
+      { header: 'Order Type' },
+      { header: 'Region' },
+      { header: 'Subscription' },
+      { header: 'Period' },
+      { header: 'Proceeds Reason', width: 24 },
+    ],
+    rows: report.transactions.map((t) => [
+      date(t.transactionDate),
+      date(t.settlementDate),
+      t.countryOfSale,
+      t.title,
+      t.sku,
+      t.appleIdentifier,
+      t.productTypeIdentifier,
+      isReturn(t) ? 'Return' : 'Sale',
+      t.quantity,
+      money(t.partnerShare, t.partnerShareCurrency),
+      money(t.extendedPartnerShare, t.partnerShareCurrency),
+      t.partnerShareCurrency,
+      money(t.customerPrice, t.customerCurrency),
+      t.customerCurrency,
+      t.promoCode,
+      t.orderType,
+      t.region,
+      t.subscription,
+      t.period,
+      t.proceedsReason,
+    ]),
+  };
+
+  return writeXLSX([summary, countries, products, transactions]);
+}
+
+/**
+ * File name for a report's XLSX export
+ */
+export function getXLSXFilename(report: ParsedReport): string {
+  const periodStart = formatDate(report.metadata.startDate);
+  const periodEnd = formatDate(report.metadata.endDate);
+  return `AppStore_Report_${periodStart}_${periodEnd}.xlsx`;
+}
@@ -0,0 +1,235 @@
+/**
+ * XLSX Writer
+ * Minimal SpreadsheetML (Office Open XML) writer: one table per sheet with
+ * a bold, frozen header row, an autofilter and number formats. Written by
+ * hand on top of a ZIP encoder so workbooks are built entirely client-side.
+ */
+
+import { strToU8, zipSync } from 'fflate';
+
+/** A number shown with an Excel number format, e.g. `#,##0.00 "USD"` */
+export interface XLSXNumber {
+  value: number;
+  format: string;
+}
+
+/** Cell value: text, plain number, formatted number or empty */
+export type XLSXCell = string | number | XLSXNumber | null;
+
+/** Column definition of a sheet */
+export interface XLSXColumn {
+  header: string;
+  /** Width in characters */
+  width?: number;
+}
+
+/** One worksheet holding a single table */
+export interface XLSXSheet {
+  name: string;
+  columns: XLSXColumn[];
+  rows: XLSXCell[][];
+}
+
+/** First id Excel leaves free for custom number formats */
+const FIRST_CUSTOM_FORMAT_ID = 164;
+
+/** Style index of the bold header cells (see `buildStyles`) */
+const HEADER_STYLE = 1;
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PKG_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+/**
+ * Escape text for XML, dropping control characters XML 1.0 can't hold
+ */
+function escapeXML(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Column letters for a 0-based index (0 → A, 26 → AA)
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Sheet names are limited to 31 characters and may not contain []:*?/\
+ */
+function sanitizeSheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet';
+}
+
+/**
+ * Collect the distinct number formats used across all sheets
+ */
+function collectFormats(sheets: XLSXSheet[]): Map<string, number> {
+  const formats = new Map<string, number>();
+  for (const sheet of sheets) {
+    for (const row of sheet.rows) {
+      for (const cell of row) {
+        if (cell !== null && typeof cell === 'object' && !formats.has(cell.format)) {
+          formats.set(cell.format, formats.size);
+        }
+      }
+    }
+  }
+  return formats;
+}
+
+/**
+ * Styles part: a default style, a bold header style and one style per
+ * number format (style index = format position + 2)
+ */
+function buildStyles(formats: Map<string, number>): string {
+  const numFmts = [...formats.keys()]
+    .map((format, i) => `<numFmt numFmtId="${FIRST_CUSTOM_FORMAT_ID + i}" formatCode="${escapeXML(format)}"/>`)
+    .join('');
+  const formatXfs = [...formats.keys()]
+    .map((_, i) => `<xf numFmtId="${FIRST_CUSTOM_FORMAT_ID + i}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>`)
+    .join('');
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<styleSheet xmlns="${MAIN_NS}">` +
+    (formats.size > 0 ? `<numFmts count="${formats.size}">${numFmts}</numFmts>` : '') +
+    `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+    `<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>` +
+    `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+    `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+    `<cellXfs count="${formats.size + 2}">` +
+    `<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+    `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>` +
+    formatXfs +
+    `</cellXfs>` +
+    `<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>` +
+    `</styleSheet>`
+  );
+}
+
+/**
+ * XML for a single cell
+ */
+function buildCell(ref: string, cell: XLSXCell, formats: Map<string, number>): string {
+  if (cell === null || cell === '') {
+    return '';
+  }
+  if (typeof cell === 'string') {
+    return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(cell)}</t></is></c>`;
+  }
+  if (typeof cell === 'number') {
+    return Number.isFinite(cell) ? `<c r="${ref}"><v>${cell}</v></c>` : '';
+  }
+  if (!Number.isFinite(cell.value)) {
+    return '';
+  }
+  return `<c r="${ref}" s="${formats.get(cell.format)! + 2}"><v>${cell.value}</v></c>`;
+}
+
+/**
+ * Worksheet part with a frozen header row and an autofilter over the table
+ */
+function buildSheet(sheet: XLSXSheet, formats: Map<string, number>): string {
+  const lastColumn = columnName(Math.max(sheet.columns.length - 1, 0));
+  const range = `A1:${lastColumn}${sheet.rows.length + 1}`;
+
+  const cols = sheet.columns
+    .map((c, i) => `<col min="${i + 1}" max="${i + 1}" width="${c.width ?? Math.max(10, c.header.length + 2)}" customWidth="1"/>`)
+    .join('');
+  const header =
+    `<row r="1">` +
+    sheet.columns
+      .map((c, i) => `<c r="${columnName(i)}1" t="inlineStr" s="${HEADER_STYLE}"><is><t>${escapeXML(c.header)}</t></is></c>`)
+      .join('') +
+    `</row>`;
+  const rows = sheet.rows
+    .map((row, r) => {
+      const cells = row.map((cell, c) => buildCell(`${columnName(c)}${r + 2}`, cell, formats)).join('');
+      return `<row r="${r + 2}">${cells}</row>`;
+    })
+    .join('');
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    `<dimension ref="${range}"/>` +
+    `<sheetViews><sheetView workbookViewId="0">` +
+    `<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>` +
+    `<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>` +
+    `</sheetView></sheetViews>` +
+    `<sheetFormatPr defaultRowHeight="15"/>` +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${header}${rows}</sheetData>` +
+    `<autoFilter ref="${range}"/>` +
+    `</worksheet>`
+  );
+}
+
+/**
+ * Build an .xlsx workbook with one sheet per table
+ */
+export function writeXLSX(sheets: XLSXSheet[]): Uint8Array {
+  const formats = collectFormats(sheets);
+  const names = sheets.map((s) => sanitizeSheetName(s.name));
+
+  const sheetEntries = names
+    .map((name, i) => `<sheet name="${escapeXML(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+    .join('');
+  // Excel expects a hidden filter database name for every autofilter
+  const filterNames = sheets
+    .map((s, i) => {
+      const lastColumn = columnName(Math.max(s.columns.length - 1, 0));
+      const ref = `'${names[i].replace(/'/g, "''")}'!$A$1:$${lastColumn}$${s.rows.length + 1}`;
+      return `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">${escapeXML(ref)}</definedName>`;
+    })
+    .join('');
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml':
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+      `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+      sheets
+        .map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+        .join('') +
+      `</Types>`,
+    '_rels/.rels':
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      `</Relationships>`,
+    'xl/workbook.xml':
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+      `<sheets>${sheetEntries}</sheets>` +
+      `<definedNames>${filterNames}</definedNames>` +
+      `</workbook>`,
+    'xl/_rels/workbook.xml.rels':
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Relationships xmlns="${PKG_REL_NS}">` +
+      sheets
+        .map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+        .join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+      `</Relationships>`,
+    'xl/styles.xml': buildStyles(formats),
+  };
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = buildSheet(sheet, formats);
+  });
+
+  return zipSync(Object.fromEntries(Object.entries(files).map(([name, xml]) => [name, strToU8(xml)])));
+}
@@ -0,0 +1,23 @@
+import { defineConfig } from 'tsup';
+
+// Library build: the public API, the browser download helpers and the CLI.
+// Dependencies stay external so consumers share their copies of jsPDF.
+export default defineConfig({
+  entry: {
+    index: 'src/lib/index.ts',
+    browser: 'src/lib/browser.ts',
+    cli: 'src/cli/index.ts',
+  },
+  outDir: 'lib',
+  format: ['esm'],
+  target: 'es2022',
+  platform: 'neutral',
+  dts: {
+    entry: {
+      index: 'src/lib/index.ts',
+      browser: 'src/lib/browser.ts',
+    },
+  },
+  clean: true,
+  splitting: true,
+});